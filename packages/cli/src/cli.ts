@@ -1,9 +1,15 @@
 #!/usr/bin/env bun
 
 import { Command } from "commander"
+import { codegenCommand } from "./commands/codegen"
 import { deployCommand } from "./commands/deploy"
+import { flowSimulateCommand } from "./commands/flow"
+import { graphCommand } from "./commands/graph"
 import { publishCommand } from "./commands/publish"
 import { pullCommand } from "./commands/pull"
+import { renderCommand } from "./commands/render"
+import { validateCommand } from "./commands/validate"
+import { DEFAULT_CODEGEN_DIR } from "./lib/codegen"
 import { DEFAULT_COMPONENTS_DIR } from "./lib/components"
 import { DEFAULT_AGENTS_DIR } from "./lib/utils.js"
 
@@ -61,4 +67,57 @@ program
   .option("-q, --quiet", "Output only published agent IDs (for piping)")
   .action(publishCommand)
 
+program
+  .command("codegen [agentIds...]")
+  .description(
+    "Generate TypeScript schemas for local agents (analysis, dynamic variables, tool arguments)",
+  )
+  .option(
+    "-o, --out-dir <dir>",
+    "Directory for generated modules",
+    DEFAULT_CODEGEN_DIR,
+  )
+  .action(codegenCommand)
+
+program
+  .command("validate [agentIds...]")
+  .description("Check local agent configs for problems before deploying")
+  .option("--strict", "Exit with an error on warnings too")
+  .action(validateCommand)
+
+program
+  .command("render <agentId>")
+  .description("Print the prompt an agent sends to the model")
+  .option("--node <name>", "Multi-prompt state or flow node (name or ID)")
+  .option("--vars <file>", "JSON file of dynamic variable values")
+  .action(renderCommand)
+
+program
+  .command("graph <agentId>")
+  .description("Print a multi-prompt agent's state machine as Mermaid")
+  .option("--markdown", "Wrap the diagram in a Markdown code fence")
+  .action(graphCommand)
+
+const flow = program.command("flow").description("Conversation flow tools")
+
+flow
+  .command("simulate <agentId>")
+  .description(
+    "Walk a conversation flow offline, evaluating equation edges and mocking tools",
+  )
+  .option(
+    "-c, --choose <choices...>",
+    "Scripted prompt edge choices (edge ID, destination node ID, prompt text, or 'else'); interactive if omitted",
+  )
+  .option(
+    "--vars <file>",
+    "JSON file of dynamic variable values, including any extraction nodes set when scripted",
+  )
+  .option(
+    "--mocks <file>",
+    "JSON file of tool mocks (test case tool_mocks format)",
+  )
+  .option("--max-steps <number>", "Stop after this many nodes", "100")
+  .action(flowSimulateCommand)
+
 program.parse()
@@ -0,0 +1,85 @@
+import fs from "node:fs/promises"
+import path from "node:path"
+import chalk from "chalk"
+import type { Command } from "commander"
+import { getAgentDirName, getLocalState } from "../lib/agents"
+import { DEFAULT_CODEGEN_DIR, generateAgentModule } from "../lib/codegen"
+import * as logger from "../lib/logger"
+import { formatWithPrettier } from "../lib/prettier"
+import { DEFAULT_AGENTS_DIR, pluralize } from "../lib/utils"
+
+type GlobalOpts = {
+  agentsDir?: string
+}
+
+export async function codegenCommand(
+  agentIdArgs: string[],
+  opts: { outDir?: string },
+  cmd: Command,
+) {
+  const globalOpts = cmd.optsWithGlobals<GlobalOpts>()
+
+  const written = await codegen({
+    agentsDir: globalOpts.agentsDir,
+    agentIds: agentIdArgs.length > 0 ? agentIdArgs : null,
+    outDir: opts.outDir,
+  })
+
+  if (written.length === 0) {
+    logger.warn("No local agents found. Run `retell pull` first.")
+    return
+  }
+  logger.success(
+    `Generated ${pluralize("module", written.length, true)} in ${chalk.bold(opts.outDir ?? DEFAULT_CODEGEN_DIR)}`,
+  )
+}
+
+/**
+ * Generates one TypeScript module per locally pulled agent. Returns the paths
+ * of the written files.
+ */
+export async function codegen({
+  agentsDir = DEFAULT_AGENTS_DIR,
+  agentIds = null,
+  outDir = DEFAULT_CODEGEN_DIR,
+}: {
+  agentsDir?: string
+  agentIds?: string[] | null
+  outDir?: string
+} = {}): Promise<string[]> {
+  const state = await getLocalState({ agentsDir, agentIds })
+  const llmById = new Map(state.llms.map((l) => [l._id, l]))
+  const flowById = new Map(state.conversationFlows.map((f) => [f._id, f]))
+
+  const agents = [
+    ...state.voiceAgents.map((agent) => ({ agent, channel: "voice" as const })),
+    ...state.chatAgents.map((agent) => ({ agent, channel: "chat" as const })),
+  ]
+  if (agents.length === 0) return []
+
+  await fs.mkdir(outDir, { recursive: true })
+
+  const written: string[] = []
+  for (const { agent, channel } of agents) {
+    const engine = agent.response_engine
+    const source = generateAgentModule({
+      agent,
+      channel,
+      llm:
+        engine.type === "retell-llm" ? llmById.get(engine.llm_id) : undefined,
+      flow:
+        engine.type === "conversation-flow"
+          ? flowById.get(engine.conversation_flow_id)
+          : undefined,
+    })
+
+    const filePath = path.join(outDir, `${getAgentDirName(agent)}.ts`)
+    await Bun.write(
+      filePath,
+      await formatWithPrettier(source, { parser: "typescript" }),
+    )
+    logger.dim(`  ${filePath}`)
+    written.push(filePath)
+  }
+  return written
+}
@@ -0,0 +1,205 @@
+import { ExitPromptError } from "@inquirer/core"
+import { input, select } from "@inquirer/prompts"
+import {
+  type FlowSimulation,
+  type PromptEdgeChooser,
+  type SimulateFlowOptions,
+  ToolMockSchema,
+  scriptedChoices,
+  simulateFlow,
+} from "@core"
+import chalk from "chalk"
+import type { Command } from "commander"
+import z from "zod"
+import { getLocalState } from "../lib/agents"
+import * as logger from "../lib/logger"
+import { DEFAULT_AGENTS_DIR, readJson } from "../lib/utils"
+
+type GlobalOpts = {
+  agentsDir?: string
+}
+
+type VariableExtractor = NonNullable<SimulateFlowOptions["extractVariables"]>
+
+export async function flowSimulateCommand(
+  agentId: string,
+  opts: {
+    choose?: string[]
+    vars?: string
+    mocks?: string
+    maxSteps?: string
+  },
+  cmd: Command,
+) {
+  const globalOpts = cmd.optsWithGlobals<GlobalOpts>()
+
+  try {
+    const maxSteps = opts.maxSteps ? Number(opts.maxSteps) : undefined
+    if (
+      maxSteps !== undefined &&
+      !(Number.isInteger(maxSteps) && maxSteps > 0)
+    ) {
+      throw new Error("--max-steps must be a positive integer")
+    }
+
+    const variables = opts.vars
+      ? readJson(
+          await Bun.file(opts.vars).text(),
+          z.record(z.string(), z.string()),
+        )
+      : undefined
+
+    const result = await simulate({
+      agentsDir: globalOpts.agentsDir,
+      agentId,
+      choosePromptEdge: opts.choose
+        ? scriptedChoices(opts.choose)
+        : interactiveChooser,
+      extractVariables: opts.choose
+        ? warnUnextracted(variables)
+        : interactiveExtractor,
+      variables,
+      toolMocks: opts.mocks
+        ? readJson(await Bun.file(opts.mocks).text(), z.array(ToolMockSchema))
+        : undefined,
+      maxSteps,
+    })
+    printSimulation(result)
+  } catch (err) {
+    if (err instanceof ExitPromptError) {
+      logger.dim("Aborted")
+      return
+    }
+    logger.error(`Error: ${err instanceof Error ? err.message : String(err)}`)
+    process.exitCode = 1
+  }
+}
+
+/** Asks which prompt edge the model would take at each decision. */
+const interactiveChooser: PromptEdgeChooser = ({ node, edges }) =>
+  select({
+    message: `${node.name}: which condition is met?`,
+    choices: [
+      ...edges.map((edge) => ({
+        name: edge.transition_condition?.prompt ?? edge.id ?? "(no prompt)",
+        value: edge,
+      })),
+      { name: chalk.dim("None of these"), value: undefined },
+    ],
+  })
+
+/** Asks for each variable an extraction node would pull from the conversation. */
+const interactiveExtractor: VariableExtractor = async (node) => {
+  const values: Record<string, string> = {}
+  for (const variable of node.variables) {
+    const message = `${node.name}: ${variable.name} ${chalk.dim(`(${variable.description})`)}`
+    const choices =
+      variable.type === "boolean" ? ["true", "false"] : variable.choices
+    const value =
+      choices?.length &&
+      (variable.type === "enum" || variable.type === "boolean")
+        ? await select({
+            message,
+            choices: [
+              ...choices.map((choice) => ({ name: choice, value: choice })),
+              { name: chalk.dim("Not mentioned"), value: "" },
+            ],
+          })
+        : await input({
+            message: `${message} ${chalk.dim("(blank if not mentioned)")}`,
+          })
+    if (value !== "") values[variable.name] = value
+  }
+  return values
+}
+
+/**
+ * Scripted runs can't extract anything, so warn about extraction node variables
+ * `--vars` doesn't already set.
+ */
+function warnUnextracted(
+  preset: Record<string, string> = {},
+): VariableExtractor {
+  return (node) => {
+    const missing = node.variables
+      .map((v) => v.name)
+      .filter((name) => !Object.hasOwn(preset, name))
+    if (missing.length > 0) {
+      logger.warn(
+        `${node.name} extracts ${missing.join(", ")}, which a scripted run can't set; pass them with --vars`,
+      )
+    }
+    return {}
+  }
+}
+
+/** Simulates a locally pulled conversation flow agent. */
+export async function simulate({
+  agentsDir = DEFAULT_AGENTS_DIR,
+  agentId,
+  ...options
+}: {
+  agentsDir?: string
+  agentId: string
+} & Parameters<typeof simulateFlow>[1]) {
+  const state = await getLocalState({ agentsDir, agentIds: [agentId] })
+  const agent = [...state.voiceAgents, ...state.chatAgents][0]
+  if (!agent) {
+    throw new Error(`Agent ${agentId} not found locally. Run \`retell pull\`.`)
+  }
+
+  const engine = agent.response_engine
+  const flow =
+    engine.type === "conversation-flow"
+      ? state.conversationFlows.find(
+          (f) => f._id === engine.conversation_flow_id,
+        )
+      : undefined
+  if (!flow) {
+    throw new Error(`Agent ${agentId} does not use a local conversation flow`)
+  }
+  return simulateFlow(flow, options)
+}
+
+const OUTCOME_LABELS: Record<FlowSimulation["outcome"], string> = {
+  ended: "Reached an end node",
+  transferred: "Transferred the call",
+  stuck: "Stopped: no edge to take",
+  missing_node: "Stopped: edge points to a missing node",
+  max_steps: "Stopped: step limit reached",
+}
+
+function printSimulation({ path, variables, outcome }: FlowSimulation) {
+  for (const [i, step] of path.entries()) {
+    logger.log(
+      `${chalk.dim(`${i + 1}.`)} ${chalk.bold(step.nodeName)} ${chalk.dim(`(${step.nodeType})`)}`,
+    )
+    if (step.toolCall) {
+      const { toolName, mocked, successful } = step.toolCall
+      logger.log(
+        `     ${chalk.cyan(`tool ${toolName}`)} ${
+          mocked
+            ? successful
+              ? chalk.green("mocked")
+              : chalk.red("mocked failure")
+            : chalk.yellow("no mock")
+        }`,
+      )
+    }
+    if (step.edge) {
+      const condition =
+        step.edge.transition_condition?.prompt ?? step.edge.id ?? ""
+      logger.log(
+        chalk.dim(`     → ${step.via}${condition ? `: ${condition}` : ""}`),
+      )
+    }
+  }
+
+  const color =
+    outcome === "ended" || outcome === "transferred"
+      ? chalk.green
+      : chalk.yellow
+  logger.log(`\n${color(OUTCOME_LABELS[outcome])}`)
+  logger.log(chalk.bold("\nDynamic variables:"))
+  logger.log(JSON.stringify(variables, null, 2))
+}
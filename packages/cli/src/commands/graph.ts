@@ -0,0 +1,50 @@
+import { renderStatesMermaid } from "@core"
+import type { Command } from "commander"
+import { getLocalState } from "../lib/agents"
+import * as logger from "../lib/logger"
+import { DEFAULT_AGENTS_DIR } from "../lib/utils"
+
+type GlobalOpts = {
+  agentsDir?: string
+}
+
+export async function graphCommand(
+  agentId: string,
+  opts: { markdown?: boolean },
+  cmd: Command,
+) {
+  const globalOpts = cmd.optsWithGlobals<GlobalOpts>()
+
+  try {
+    const mermaid = await graph({ agentsDir: globalOpts.agentsDir, agentId })
+    console.log(opts.markdown ? `\`\`\`mermaid\n${mermaid}\n\`\`\`` : mermaid)
+  } catch (err) {
+    logger.error(`Error: ${err instanceof Error ? err.message : String(err)}`)
+    process.exitCode = 1
+  }
+}
+
+/** Renders a locally pulled multi-prompt agent's state machine as Mermaid. */
+export async function graph({
+  agentsDir = DEFAULT_AGENTS_DIR,
+  agentId,
+}: {
+  agentsDir?: string
+  agentId: string
+}) {
+  const state = await getLocalState({ agentsDir, agentIds: [agentId] })
+  const agent = [...state.voiceAgents, ...state.chatAgents][0]
+  if (!agent) {
+    throw new Error(`Agent ${agentId} not found locally. Run \`retell pull\`.`)
+  }
+
+  const engine = agent.response_engine
+  const llm =
+    engine.type === "retell-llm"
+      ? state.llms.find((l) => l._id === engine.llm_id)
+      : undefined
+  if (!llm?.states?.length) {
+    throw new Error(`Agent ${agentId} does not use a multi-prompt Retell LLM`)
+  }
+  return renderStatesMermaid(llm)
+}
@@ -0,0 +1,101 @@
+import { renderPrompt } from "@core"
+import chalk from "chalk"
+import type { Command } from "commander"
+import z from "zod"
+import { getLocalState } from "../lib/agents"
+import * as logger from "../lib/logger"
+import { assemblePrompt } from "../lib/render"
+import { DEFAULT_AGENTS_DIR, readJson } from "../lib/utils"
+
+type GlobalOpts = {
+  agentsDir?: string
+}
+
+export async function renderCommand(
+  agentId: string,
+  opts: { node?: string; vars?: string },
+  cmd: Command,
+) {
+  const globalOpts = cmd.optsWithGlobals<GlobalOpts>()
+
+  try {
+    const variables = opts.vars
+      ? readJson(
+          await Bun.file(opts.vars).text(),
+          z.record(z.string(), z.string()),
+        )
+      : {}
+    const { text, unresolved } = await render({
+      agentsDir: globalOpts.agentsDir,
+      agentId,
+      node: opts.node,
+      variables,
+      highlight: (placeholder) => chalk.bgRed.white(placeholder),
+    })
+
+    console.log(text)
+    if (unresolved.length > 0) {
+      logger.warn(
+        `\nUnresolved: ${unresolved.map((name) => `{{${name}}}`).join(", ")}`,
+      )
+    }
+  } catch (err) {
+    logger.error(`Error: ${err instanceof Error ? err.message : String(err)}`)
+    process.exitCode = 1
+  }
+}
+
+/**
+ * Renders the prompt a locally pulled agent sends to the model, with dynamic
+ * variables substituted. Sections are separated by headings.
+ */
+export async function render({
+  agentsDir = DEFAULT_AGENTS_DIR,
+  agentId,
+  node,
+  variables,
+  highlight,
+}: {
+  agentsDir?: string
+  agentId: string
+  node?: string
+  variables?: Record<string, string>
+  highlight?: (placeholder: string, name: string) => string
+}) {
+  const state = await getLocalState({ agentsDir, agentIds: [agentId] })
+  const agent = [...state.voiceAgents, ...state.chatAgents][0]
+  if (!agent) {
+    throw new Error(`Agent ${agentId} not found locally. Run \`retell pull\`.`)
+  }
+
+  const engine = agent.response_engine
+  const llm =
+    engine.type === "retell-llm"
+      ? state.llms.find((l) => l._id === engine.llm_id)
+      : undefined
+  const flow =
+    engine.type === "conversation-flow"
+      ? state.conversationFlows.find(
+          (f) => f._id === engine.conversation_flow_id,
+        )
+      : undefined
+  if (!llm && !flow) {
+    throw new Error(`Agent ${agentId} has no local Retell LLM or flow`)
+  }
+
+  const defaults = (llm ?? flow)?.default_dynamic_variables
+  const unresolved = new Set<string>()
+  const text = assemblePrompt({ llm, flow, node })
+    .map(({ title, template }) => {
+      const rendered = renderPrompt(template, {
+        variables,
+        defaults,
+        highlight,
+      })
+      for (const name of rendered.unresolved) unresolved.add(name)
+      return `${chalk.bold(`## ${title}`)}\n\n${rendered.text}`
+    })
+    .join("\n\n")
+
+  return { text, unresolved: [...unresolved] }
+}
@@ -0,0 +1,128 @@
+import chalk from "chalk"
+import type { Command } from "commander"
+import { getLocalState } from "../lib/agents"
+import { getLocalComponents } from "../lib/components"
+import * as logger from "../lib/logger"
+import { DEFAULT_AGENTS_DIR, pluralize } from "../lib/utils"
+import {
+  type ValidationProblem,
+  validateComponent,
+  validateResponseEngine,
+} from "../lib/validation"
+
+type GlobalOpts = {
+  agentsDir?: string
+  componentsDir?: string
+}
+
+export type ValidationResult = {
+  kind: "agent" | "component"
+  id: string
+  name: string | null | undefined
+  problems: ValidationProblem[]
+}
+
+export async function validateCommand(
+  agentIdArgs: string[],
+  opts: { strict?: boolean },
+  cmd: Command,
+) {
+  const globalOpts = cmd.optsWithGlobals<GlobalOpts>()
+
+  const results = await validate({
+    agentsDir: globalOpts.agentsDir,
+    agentIds: agentIdArgs.length > 0 ? agentIdArgs : null,
+    componentsDir: globalOpts.componentsDir,
+  })
+
+  if (results.length === 0) {
+    logger.warn("No local agents found. Run `retell pull` first.")
+    return
+  }
+
+  let errors = 0
+  let warnings = 0
+  for (const { kind, id, name, problems } of results) {
+    const label = `${kind === "component" ? "component " : ""}${name ? `${name} (${id})` : id}`
+    if (problems.length === 0) {
+      logger.log(`${chalk.green("✓")} ${label}`)
+      continue
+    }
+    logger.log(`${chalk.red("✗")} ${label}`)
+    for (const { severity, check, message } of problems) {
+      const color = severity === "error" ? chalk.red : chalk.yellow
+      logger.log(`    ${color(severity)} ${message} ${chalk.dim(`[${check}]`)}`)
+      if (severity === "error") errors++
+      else warnings++
+    }
+  }
+
+  if (errors === 0 && warnings === 0) {
+    logger.success(`All ${pluralize("config", results.length, true)} valid`)
+    return
+  }
+  logger.log(
+    `${pluralize("error", errors, true)}, ${pluralize("warning", warnings, true)}`,
+  )
+  if (errors > 0 || (opts.strict && warnings > 0)) process.exitCode = 1
+}
+
+/**
+ * Validates locally pulled agents, plus shared components when validating all
+ * agents. Returns one result per agent or component.
+ */
+export async function validate({
+  agentsDir = DEFAULT_AGENTS_DIR,
+  agentIds = null,
+  componentsDir,
+}: {
+  agentsDir?: string
+  agentIds?: string[] | null
+  componentsDir?: string
+} = {}): Promise<ValidationResult[]> {
+  const [state, components] = await Promise.all([
+    getLocalState({ agentsDir, agentIds }),
+    getLocalComponents({ componentsDir }),
+  ])
+  const llmById = new Map(state.llms.map((l) => [l._id, l]))
+  const flowById = new Map(state.conversationFlows.map((f) => [f._id, f]))
+  // Without pulled components, shared references can't be told apart from
+  // ones that were never pulled, so they go unchecked.
+  const sharedComponentIds =
+    components.length > 0 ? components.map((c) => c._id) : undefined
+
+  const agentResults = [...state.voiceAgents, ...state.chatAgents].map(
+    (agent): ValidationResult => {
+      const engine = agent.response_engine
+      return {
+        kind: "agent",
+        id: agent._id,
+        name: agent.agent_name,
+        problems: validateResponseEngine({
+          llm:
+            engine.type === "retell-llm"
+              ? llmById.get(engine.llm_id)
+              : undefined,
+          flow:
+            engine.type === "conversation-flow"
+              ? flowById.get(engine.conversation_flow_id)
+              : undefined,
+          sharedComponentIds,
+        }),
+      }
+    },
+  )
+  if (agentResults.length === 0) return []
+
+  return [
+    ...agentResults,
+    ...(agentIds ? [] : components).map(
+      (component): ValidationResult => ({
+        kind: "component",
+        id: component._id,
+        name: component.name,
+        problems: validateComponent(component),
+      }),
+    ),
+  ]
+}
@@ -0,0 +1,199 @@
+import {
+  type LlmToolSchema,
+  extractDynamicVariables,
+  isKnownLlmTool,
+  isSystemVariable,
+} from "@core"
+import type z from "zod"
+import type {
+  CanonicalChatAgent,
+  CanonicalConversationFlow,
+  CanonicalLLM,
+  CanonicalVoiceAgent,
+} from "./agents"
+
+type LlmTool = z.infer<typeof LlmToolSchema>
+type CustomTool = Extract<LlmTool, { type: "custom" }>
+
+export const DEFAULT_CODEGEN_DIR = "./retell-types"
+
+// ---------------------------------------------------------------------------
+// JSON Schema -> Zod source
+// ---------------------------------------------------------------------------
+
+type JsonSchema = {
+  type?: string | string[]
+  description?: string
+  enum?: unknown[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+}
+
+const isJsonSchema = (value: unknown): value is JsonSchema =>
+  value != null && typeof value === "object" && !Array.isArray(value)
+
+/**
+ * Converts the JSON Schema subset Retell uses for tool `parameters` into Zod
+ * source code. Unsupported constructs fall back to `z.unknown()`.
+ */
+export function jsonSchemaToZod(schema: unknown): string {
+  if (!isJsonSchema(schema)) return "z.unknown()"
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type
+  let source: string
+  if (schema.enum?.length && schema.enum.every((v) => typeof v === "string")) {
+    source = `z.enum(${JSON.stringify(schema.enum)})`
+  } else if (type === "string") {
+    source = "z.string()"
+  } else if (type === "number") {
+    source = "z.number()"
+  } else if (type === "integer") {
+    source = "z.number().int()"
+  } else if (type === "boolean") {
+    source = "z.boolean()"
+  } else if (type === "array") {
+    source = `z.array(${jsonSchemaToZod(schema.items)})`
+  } else if (type === "object" || schema.properties) {
+    const required = new Set(schema.required ?? [])
+    const fields = Object.entries(schema.properties ?? {}).map(
+      ([key, value]) => {
+        const field = jsonSchemaToZod(value)
+        return `${JSON.stringify(key)}: ${field}${required.has(key) ? "" : ".optional()"}`
+      },
+    )
+    source = `z.object({${fields.join(", ")}})`
+  } else {
+    source = "z.unknown()"
+  }
+
+  return schema.description
+    ? `${source}.describe(${JSON.stringify(schema.description)})`
+    : source
+}
+
+// ---------------------------------------------------------------------------
+// Config walkers
+// ---------------------------------------------------------------------------
+
+/** Collects `{{variable}}` names from every string in a config. */
+function collectVariableRefs(value: unknown, refs: Set<string>) {
+  if (typeof value === "string") {
+    for (const name of extractDynamicVariables(value)) refs.add(name)
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectVariableRefs(item, refs)
+  } else if (value != null && typeof value === "object") {
+    for (const item of Object.values(value)) collectVariableRefs(item, refs)
+  }
+}
+
+/**
+ * Custom tools across an LLM's general tools and states, or a flow and its
+ * components.
+ */
+function collectCustomTools(
+  llm: CanonicalLLM | undefined,
+  flow: CanonicalConversationFlow | undefined,
+) {
+  const tools: LlmTool[] = [
+    ...(llm?.general_tools ?? []),
+    ...(llm?.states ?? []).flatMap((s) => s.tools ?? []),
+    ...(flow?.tools ?? []),
+    ...(flow?.components ?? []).flatMap((c) => c.tools ?? []),
+  ]
+  const byName = new Map<string, CustomTool>()
+  for (const tool of tools) {
+    if (
+      isKnownLlmTool(tool) &&
+      tool.type === "custom" &&
+      !byName.has(tool.name)
+    ) {
+      byName.set(tool.name, tool)
+    }
+  }
+  return [...byName.values()]
+}
+
+// ---------------------------------------------------------------------------
+// Module generation
+// ---------------------------------------------------------------------------
+
+/**
+ * Generates a TypeScript module for one agent: a ready-made
+ * `createCallSchemas`/`createChatSchemas` call with analysis data typed from
+ * the agent's analysis fields and dynamic variables typed from `{{var}}`
+ * references plus `default_dynamic_variables`, and argument schemas for every
+ * custom tool. Returns unformatted source.
+ */
+export function generateAgentModule({
+  agent,
+  channel,
+  llm,
+  flow,
+}: {
+  agent: CanonicalVoiceAgent | CanonicalChatAgent
+  channel: "voice" | "chat"
+  llm?: CanonicalLLM
+  flow?: CanonicalConversationFlow
+}) {
+  const isChat = channel === "chat"
+  const analysisFields = isChat
+    ? (agent as CanonicalChatAgent).post_chat_analysis_data
+    : (agent as CanonicalVoiceAgent).post_call_analysis_data
+  const defaults = {
+    ...llm?.default_dynamic_variables,
+    ...flow?.default_dynamic_variables,
+  }
+
+  const refs = new Set<string>()
+  collectVariableRefs(agent, refs)
+  collectVariableRefs(llm, refs)
+  collectVariableRefs(flow, refs)
+  const variables = [...new Set([...refs, ...Object.keys(defaults)])]
+    .filter((name) => !isSystemVariable(name))
+    .sort()
+
+  const factory = isChat ? "createChatSchemas" : "createCallSchemas"
+  const defaultsName = isChat ? "chatSchemaDefaults" : "callSchemaDefaults"
+  const tools = collectCustomTools(llm, flow)
+  const label = agent.agent_name
+    ? `${JSON.stringify(agent.agent_name)} (${agent._id})`
+    : agent._id
+
+  const variableFields = variables.map(
+    (name) => `${JSON.stringify(name)}: z.string().optional()`,
+  )
+  const analysisSource = (analysisFields ?? []).map(({ type, name, choices }) =>
+    JSON.stringify(type === "enum" ? { type, name, choices } : { type, name }),
+  )
+  const toolFields = tools.map(
+    (tool) =>
+      `${JSON.stringify(tool.name)}: ${tool.parameters ? jsonSchemaToZod(tool.parameters) : "z.object({})"}`,
+  )
+
+  return `
+// Generated by \`retell codegen\` from agent ${label}, version ${agent._version}.
+// Do not edit by hand; re-run \`retell codegen\` after pulling.
+
+import { analysisSchemaFromFields, ${defaultsName}, ${factory} } from "retell-utils"
+import { z } from "zod"
+
+/** \`default_dynamic_variables\` from the agent's LLM or conversation flow. */
+export const defaultDynamicVariables = ${JSON.stringify(defaults)} as const
+
+/** Every dynamic variable the agent references or declares a default for. */
+export const dynamicVariables = z.looseObject({${variableFields.join(", ")}}).prefault({})
+
+/** Custom analysis data, from \`${isChat ? "post_chat_analysis_data" : "post_call_analysis_data"}\`. */
+export const analysisData = analysisSchemaFromFields([${analysisSource.join(", ")}])
+
+export const schemas = ${factory}({
+  ...${defaultsName},
+  dynamicVariables,
+  analysisData,
+})
+
+/** Argument schemas for each custom tool, keyed by tool name. */
+export const toolArgs = {${toolFields.join(", ")}}
+`.trimStart()
+}
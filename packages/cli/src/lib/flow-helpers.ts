@@ -1,5 +1,5 @@
 import path from "node:path"
-import { type FlowEdgeSchema, FlowNodeSchema, toSnakeCase } from "@core"
+import { FlowNodeSchema, getNodeEdges, toSnakeCase } from "@core"
 import type z from "zod"
 import {
   createFlowVisualization,
@@ -9,26 +9,6 @@ import {
 } from "./utils"
 
 type FlowNode = z.infer<typeof FlowNodeSchema>
-type FlowEdge = z.infer<typeof FlowEdgeSchema>
-
-/** Collects outgoing edges from a node for building the incoming-edges map. */
-function collectEdges(node: FlowNode): FlowEdge[] {
-  switch (node.type) {
-    case "conversation":
-      return [
-        ...(node.edges ?? []),
-        ...(node.always_edge ? [node.always_edge] : []),
-      ]
-    case "function":
-    case "branch":
-    case "component":
-      return node.edges ?? []
-    case "transfer_call":
-      return node.edge ? [node.edge] : []
-    default:
-      return []
-  }
-}
 
 /**
  * Extracts conversation-node prompts from a nodes array into separate markdown
@@ -46,7 +26,7 @@ export async function extractNodePrompts(
   for (const n of nodes) {
     if (n.id && n.name) nodeNameById.set(n.id, n.name)
 
-    for (const edge of collectEdges(n)) {
+    for (const edge of getNodeEdges(n)) {
       const destId = edge.destination_node_id
       if (destId) {
         if (!incomingEdges.has(destId)) incomingEdges.set(destId, [])
@@ -70,10 +50,7 @@ export async function extractNodePrompts(
       const nodeFileName = `nodes/${nodeName}.md`
 
       const previous = incomingEdges.get(node.id) ?? []
-      const next = [
-        ...(node.edges ?? []),
-        ...(node.always_edge ? [node.always_edge] : []),
-      ]
+      const next = getNodeEdges(node)
         .map((e) =>
           e.destination_node_id
             ? nodeNameById.get(e.destination_node_id)
@@ -0,0 +1,81 @@
+import type { CanonicalConversationFlow, CanonicalLLM } from "./agents"
+
+export type PromptSection = {
+  title: string
+  template: string
+}
+
+/**
+ * Collects the prompt text the model receives, unrendered, in the order Retell
+ * assembles it:
+ *
+ * - Single-prompt LLM: `begin_message` and `general_prompt`.
+ * - Multi-prompt LLM: `general_prompt` and the state's `state_prompt` (plus
+ *   `begin_message` for the starting state). `node` names the state and
+ *   defaults to `starting_state`.
+ * - Conversation flow: `global_prompt` and the node's instruction. `node` is a
+ *   node name or id, searched across the flow and its components, and defaults
+ *   to `start_node_id`.
+ */
+export function assemblePrompt({
+  llm,
+  flow,
+  node,
+}: {
+  llm?: CanonicalLLM
+  flow?: CanonicalConversationFlow
+  node?: string
+}): PromptSection[] {
+  const sections: PromptSection[] = []
+  const add = (title: string, template: string | null | undefined) => {
+    if (template) sections.push({ title, template })
+  }
+
+  if (llm) {
+    const states = llm.states ?? []
+    if (states.length === 0) {
+      if (node) {
+        throw new Error(`--node requires a multi-prompt LLM or flow`)
+      }
+      add("Begin message", llm.begin_message)
+      add("General prompt", llm.general_prompt)
+      return sections
+    }
+
+    const stateName = node ?? llm.starting_state ?? states[0]!.name
+    const state = states.find((s) => s.name === stateName)
+    if (!state) {
+      throw new Error(
+        `Unknown state "${stateName}". States: ${states.map((s) => s.name).join(", ")}`,
+      )
+    }
+    const isStart = state.name === (llm.starting_state ?? states[0]!.name)
+    if (isStart) add("Begin message", llm.begin_message)
+    add("General prompt", llm.general_prompt)
+    add(`State prompt (${state.name})`, state.state_prompt)
+    return sections
+  }
+
+  if (flow) {
+    const nodes = [
+      ...(flow.nodes ?? []),
+      ...(flow.components ?? []).flatMap((c) => c.nodes ?? []),
+    ]
+    const target = node ?? flow.start_node_id
+    if (!target) throw new Error("Flow has no start_node_id; pass --node")
+    const found =
+      nodes.find((n) => n.name === target) ?? nodes.find((n) => n.id === target)
+    if (!found) throw new Error(`Unknown node "${target}"`)
+
+    add("Global prompt", flow.global_prompt)
+    const { instruction } = found as {
+      instruction?: { type?: string; text?: string }
+    }
+    const kind =
+      instruction?.type === "static_text" ? "static text" : "instruction"
+    add(`Node ${kind} (${found.name})`, instruction?.text)
+    return sections
+  }
+
+  return sections
+}
@@ -0,0 +1,118 @@
+import {
+  type FlowGraphIssue,
+  KnownLlmToolSchema,
+  LlmToolTypeSchema,
+  analyzeDynamicVariables,
+  validateFlowComponent,
+  validateFlowGraph,
+  validateLlmStates,
+} from "@core"
+import type { CanonicalConversationFlow, CanonicalLLM } from "./agents"
+import type { CanonicalComponent } from "./components"
+
+export type ValidationProblem = {
+  severity: "error" | "warning"
+  /** Which check reported the problem (e.g. `dynamic-variables`). */
+  check: string
+  message: string
+}
+
+/** Unreachable nodes are dead weight, not broken routing. */
+function flowGraphProblem(issue: FlowGraphIssue): ValidationProblem {
+  return {
+    severity: issue.type === "unreachable_node" ? "warning" : "error",
+    check: "flow-graph",
+    message: issue.message,
+  }
+}
+
+/**
+ * Checks each tool against the schema for its `type`. Tools of a type the
+ * schemas don't know are deployed as-is, so they only get a warning.
+ */
+function toolProblems(
+  config: CanonicalLLM | CanonicalConversationFlow,
+): ValidationProblem[] {
+  const groups = [
+    ["general_tools", "general_tools" in config ? config.general_tools : null],
+    ["tools", "tools" in config ? config.tools : null],
+    ...("states" in config ? (config.states ?? []) : []).map(
+      (s) => [`states[${s.name}].tools`, s.tools] as const,
+    ),
+    ...("components" in config ? (config.components ?? []) : []).map(
+      (c, i) => [`components[${c.name ?? i}].tools`, c.tools] as const,
+    ),
+  ] as const
+
+  const problems: ValidationProblem[] = []
+  for (const [group, tools] of groups) {
+    for (const [i, tool] of (tools ?? []).entries()) {
+      const label = `${group}[${tool.name || i}]`
+      if (!LlmToolTypeSchema.safeParse(tool.type).success) {
+        problems.push({
+          severity: "warning",
+          check: "tools",
+          message: `${label} has unknown type "${tool.type}" and is not checked`,
+        })
+        continue
+      }
+      for (const issue of KnownLlmToolSchema.safeParse(tool).error?.issues ??
+        []) {
+        problems.push({
+          severity: "error",
+          check: "tools",
+          message: `${[label, ...issue.path].join(".")}: ${issue.message}`,
+        })
+      }
+    }
+  }
+  return problems
+}
+
+/**
+ * Runs every local check against an agent's response engine config: an LLM for
+ * `retell-llm` agents, or a conversation flow. Pass `sharedComponentIds` (the
+ * pulled shared components) to check the flow's shared component references.
+ */
+export function validateResponseEngine({
+  llm,
+  flow,
+  sharedComponentIds,
+}: {
+  llm?: CanonicalLLM
+  flow?: CanonicalConversationFlow
+  sharedComponentIds?: Iterable<string>
+}): ValidationProblem[] {
+  const config = llm ?? flow
+  if (!config) return []
+
+  return [
+    ...(llm
+      ? validateLlmStates(llm).map(
+          (issue): ValidationProblem => ({
+            severity: issue.type === "unreachable_state" ? "warning" : "error",
+            check: "llm-states",
+            message: issue.message,
+          }),
+        )
+      : []),
+    ...(flow
+      ? validateFlowGraph(flow, { sharedComponentIds }).map(flowGraphProblem)
+      : []),
+    ...toolProblems(config),
+    ...analyzeDynamicVariables(config).issues.map(
+      (issue): ValidationProblem => ({
+        severity: "warning",
+        check: "dynamic-variables",
+        message: issue.message,
+      }),
+    ),
+  ]
+}
+
+/** Runs the graph checks against a shared component. */
+export function validateComponent(
+  component: CanonicalComponent,
+): ValidationProblem[] {
+  return validateFlowComponent(component).map(flowGraphProblem)
+}
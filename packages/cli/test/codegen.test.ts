@@ -0,0 +1,124 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import { describe, expect, test } from "bun:test"
+import type { CanonicalLLM, CanonicalVoiceAgent } from "../src/lib/agents"
+import { generateAgentModule, jsonSchemaToZod } from "../src/lib/codegen"
+
+describe("jsonSchemaToZod", () => {
+  test("converts tool parameter schemas", () => {
+    const source = jsonSchemaToZod({
+      type: "object",
+      properties: {
+        date: { type: "string", description: "ISO date" },
+        party_size: { type: "integer" },
+        seating: { type: "string", enum: ["indoor", "outdoor"] },
+        notes: { type: "array", items: { type: "string" } },
+      },
+      required: ["date", "party_size"],
+    })
+
+    expect(source).toBe(
+      'z.object({"date": z.string().describe("ISO date"), "party_size": z.number().int(), "seating": z.enum(["indoor","outdoor"]).optional(), "notes": z.array(z.string()).optional()})',
+    )
+  })
+
+  test("falls back to unknown for unsupported schemas", () => {
+    expect(jsonSchemaToZod({ oneOf: [] })).toBe("z.unknown()")
+    expect(jsonSchemaToZod(undefined)).toBe("z.unknown()")
+  })
+})
+
+describe("generateAgentModule", () => {
+  const agent = {
+    _id: "agent_123456",
+    _version: 4,
+    agent_name: "Booking Agent",
+    response_engine: { type: "retell-llm", llm_id: "llm_1" },
+    voice_id: "11labs-Adrian",
+    post_call_analysis_data: [
+      { type: "enum", name: "outcome", choices: ["booked", "declined"] },
+    ],
+  } as unknown as CanonicalVoiceAgent
+
+  const llm = {
+    _id: "llm_1",
+    _version: 4,
+    general_prompt: "Greet {{customer_name}}. It is {{current_time}}.",
+    begin_message: "Hi {{ customer_name }}!",
+    default_dynamic_variables: { clinic: "Downtown" },
+    general_tools: [
+      {
+        type: "custom",
+        name: "book_appointment",
+        url: "https://example.com/{{clinic}}/book",
+        parameters: {
+          type: "object",
+          properties: { date: { type: "string" } },
+          required: ["date"],
+        },
+      },
+      { type: "end_call", name: "end_call" },
+    ],
+  } as unknown as CanonicalLLM
+
+  const source = generateAgentModule({ agent, channel: "voice", llm })
+
+  test("types dynamic variables from references and defaults", () => {
+    expect(source).toContain(
+      'z.looseObject({"clinic": z.string().optional(), "customer_name": z.string().optional()})',
+    )
+    expect(source).not.toContain('"current_time"')
+    expect(source).toContain('{"clinic":"Downtown"} as const')
+  })
+
+  test("builds call schemas from analysis fields", () => {
+    expect(source).toContain(
+      'analysisSchemaFromFields([{"type":"enum","name":"outcome","choices":["booked","declined"]}])',
+    )
+    expect(source).toContain("createCallSchemas({")
+    expect(source).toContain(
+      'from agent "Booking Agent" (agent_123456), version 4',
+    )
+  })
+
+  test("generated analysis schema accepts null and unknown choices", async () => {
+    // Point the imports at this checkout so the module runs as generated
+    const coreDir = path.resolve(import.meta.dir, "../../core")
+    const runnable = source
+      .replace(
+        'from "retell-utils"',
+        `from ${JSON.stringify(path.join(coreDir, "src/index.ts"))}`,
+      )
+      .replace(
+        'from "zod"',
+        `from ${JSON.stringify(Bun.resolveSync("zod", coreDir))}`,
+      )
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "retell-codegen-"))
+    try {
+      const file = path.join(dir, "booking_agent.ts")
+      await Bun.write(file, runnable)
+      const { analysisData } = (await import(file)) as {
+        analysisData: { parse: (data: unknown) => unknown }
+      }
+
+      expect(analysisData.parse({ outcome: null })).toEqual({ outcome: null })
+      expect(analysisData.parse({ outcome: "rescheduled" })).toEqual({
+        outcome: null,
+      })
+      expect(analysisData.parse({ outcome: "booked", extra: 1 })).toEqual({
+        outcome: "booked",
+        extra: 1,
+      })
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("emits argument schemas for custom tools only", () => {
+    expect(source).toContain(
+      'export const toolArgs = {"book_appointment": z.object({"date": z.string()})}',
+    )
+    expect(source).not.toContain('"end_call"')
+  })
+})
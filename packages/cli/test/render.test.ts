@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test"
+import type { CanonicalConversationFlow, CanonicalLLM } from "../src/lib/agents"
+import { assemblePrompt } from "../src/lib/render"
+
+describe("assemblePrompt", () => {
+  const multiPrompt = {
+    _id: "llm_1",
+    _version: 1,
+    begin_message: "Hi {{name}}",
+    general_prompt: "You are a receptionist.",
+    starting_state: "intake",
+    states: [
+      { name: "intake", state_prompt: "Ask why they called." },
+      { name: "booking", state_prompt: "Book a slot." },
+    ],
+  } as unknown as CanonicalLLM
+
+  test("uses the starting state of a multi-prompt LLM", () => {
+    expect(assemblePrompt({ llm: multiPrompt })).toEqual([
+      { title: "Begin message", template: "Hi {{name}}" },
+      { title: "General prompt", template: "You are a receptionist." },
+      { title: "State prompt (intake)", template: "Ask why they called." },
+    ])
+  })
+
+  test("selects a state by name", () => {
+    expect(
+      assemblePrompt({ llm: multiPrompt, node: "booking" }).map((s) => s.title),
+    ).toEqual(["General prompt", "State prompt (booking)"])
+    expect(() => assemblePrompt({ llm: multiPrompt, node: "nope" })).toThrow(
+      'Unknown state "nope". States: intake, booking',
+    )
+  })
+
+  test("combines the global prompt with a flow node instruction", () => {
+    const flow = {
+      _id: "flow_1",
+      _version: 1,
+      global_prompt: "You work for {{company}}.",
+      start_node_id: "greet",
+      nodes: [
+        {
+          id: "greet",
+          name: "Greeting",
+          type: "conversation",
+          instruction: { type: "static_text", text: "Hello!" },
+          edges: [],
+        },
+      ],
+      components: [
+        {
+          name: "Billing",
+          nodes: [
+            {
+              id: "bill",
+              name: "Bill",
+              type: "conversation",
+              instruction: { type: "prompt", text: "Take payment." },
+              edges: [],
+            },
+          ],
+        },
+      ],
+    } as unknown as CanonicalConversationFlow
+
+    expect(assemblePrompt({ flow })).toEqual([
+      { title: "Global prompt", template: "You work for {{company}}." },
+      { title: "Node static text (Greeting)", template: "Hello!" },
+    ])
+    expect(assemblePrompt({ flow, node: "bill" })[1]).toEqual({
+      title: "Node instruction (Bill)",
+      template: "Take payment.",
+    })
+  })
+})
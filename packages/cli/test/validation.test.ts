@@ -0,0 +1,241 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import { describe, expect, test } from "bun:test"
+import {
+  ChatAgentResponseSchema,
+  ConversationFlowResponseSchema,
+  LlmResponseSchema,
+  VoiceAgentResponseSchema,
+} from "@core"
+import z from "zod"
+import { validate } from "../src/commands/validate"
+import {
+  type CanonicalConversationFlow,
+  type CanonicalLLM,
+  canonicalizeFromApi,
+  writeState,
+} from "../src/lib/agents"
+import { writeComponents } from "../src/lib/components"
+import { validateResponseEngine } from "../src/lib/validation"
+import fixture from "./round-trip-fixture.json"
+
+describe("validateResponseEngine", () => {
+  test("reports dynamic variable issues as warnings", () => {
+    const llm = {
+      _id: "llm_1",
+      _version: 1,
+      general_prompt: "Hello {{custmer_name}}",
+      default_dynamic_variables: { customer_name: "there" },
+    } as unknown as CanonicalLLM
+
+    expect(validateResponseEngine({ llm })).toEqual([
+      {
+        severity: "warning",
+        check: "dynamic-variables",
+        message:
+          "{{custmer_name}} may be a typo for {{customer_name}} (used in general_prompt)",
+      },
+      {
+        severity: "warning",
+        check: "dynamic-variables",
+        message: "Default for {{customer_name}} is never referenced",
+      },
+    ])
+  })
+
+  test("reports flow graph issues, with unreachable nodes as warnings", () => {
+    const flow = {
+      _id: "flow_1",
+      _version: 1,
+      start_node_id: "greet",
+      nodes: [
+        {
+          id: "greet",
+          name: "Greeting",
+          type: "conversation",
+          instruction: { type: "prompt", text: "Hi" },
+          edges: [{ id: "e1", destination_node_id: "gone" }],
+        },
+        { id: "orphan", name: "Orphan", type: "end" },
+      ],
+    } as unknown as CanonicalConversationFlow
+
+    expect(validateResponseEngine({ flow })).toEqual([
+      {
+        severity: "error",
+        check: "flow-graph",
+        message: 'Node "Greeting" has edge "e1" to missing node "gone"',
+      },
+      {
+        severity: "warning",
+        check: "flow-graph",
+        message: 'Node "Orphan" is unreachable from start node "Greeting"',
+      },
+    ])
+  })
+
+  test("reports multi-prompt state issues", () => {
+    const llm = {
+      _id: "llm_1",
+      _version: 1,
+      starting_state: "intake",
+      states: [
+        { name: "intake", edges: [{ destination_state_name: "booking" }] },
+        { name: "orphan" },
+      ],
+    } as unknown as CanonicalLLM
+
+    expect(validateResponseEngine({ llm })).toEqual([
+      {
+        severity: "error",
+        check: "llm-states",
+        message: 'State "intake" has an edge to unknown state "booking"',
+      },
+      {
+        severity: "warning",
+        check: "llm-states",
+        message: 'State "orphan" is unreachable from starting state "intake"',
+      },
+    ])
+  })
+
+  test("checks tools against the schema for their type", () => {
+    const llm = {
+      _id: "llm_1",
+      _version: 1,
+      general_tools: [
+        { type: "end_call", name: "end_call" },
+        { type: "custom", name: "lookup", method: "FETCH" },
+        { type: "future_tool", name: "later" },
+      ],
+    } as unknown as CanonicalLLM
+
+    expect(validateResponseEngine({ llm })).toEqual([
+      {
+        severity: "error",
+        check: "tools",
+        message:
+          "general_tools[lookup].url: Invalid input: expected string, received undefined",
+      },
+      {
+        severity: "error",
+        check: "tools",
+        message:
+          'general_tools[lookup].method: Invalid option: expected one of "GET"|"POST"|"PATCH"|"PUT"|"DELETE"',
+      },
+      {
+        severity: "warning",
+        check: "tools",
+        message:
+          'general_tools[later] has unknown type "future_tool" and is not checked',
+      },
+    ])
+  })
+
+  test("checks shared component references against sharedComponentIds", () => {
+    const flow = {
+      _id: "flow_1",
+      _version: 1,
+      start_node_id: "billing",
+      nodes: [
+        {
+          id: "billing",
+          name: "Billing",
+          type: "component",
+          component_type: "shared",
+          component_id: "component_gone",
+          edges: [],
+        },
+      ],
+    } as unknown as CanonicalConversationFlow
+
+    expect(validateResponseEngine({ flow })).toEqual([])
+    expect(
+      validateResponseEngine({ flow, sharedComponentIds: ["component_1"] }),
+    ).toEqual([
+      {
+        severity: "error",
+        check: "flow-graph",
+        message:
+          'Node "Billing" references unknown shared component "component_gone"',
+      },
+    ])
+  })
+
+  test("returns nothing without a response engine config", () => {
+    expect(validateResponseEngine({})).toEqual([])
+  })
+})
+
+describe("validate", () => {
+  /** Pulls the round-trip fixture agents, plus `componentIds` as components. */
+  async function pullFixture(dir: string, componentIds: string[]) {
+    const agentsDir = path.join(dir, "agents")
+    const componentsDir = path.join(dir, "components")
+    await writeState(
+      canonicalizeFromApi({
+        voiceAgents: z
+          .array(VoiceAgentResponseSchema)
+          .parse(fixture.voiceAgents),
+        chatAgents: z.array(ChatAgentResponseSchema).parse(fixture.chatAgents),
+        llms: z.array(LlmResponseSchema).parse(fixture.llms),
+        conversationFlows: z
+          .array(ConversationFlowResponseSchema)
+          .parse(fixture.conversationFlows),
+      }),
+      { agentsDir },
+    )
+    await writeComponents(
+      componentIds.map((id) => ({
+        _id: id,
+        _timestamp: 1,
+        name: `Component ${id}`,
+        start_node_id: "end",
+        nodes: [
+          {
+            id: "end",
+            name: "End",
+            type: "end",
+            speak_during_execution: false,
+            display_position: { x: 0, y: 0 },
+          },
+        ],
+      })),
+      { componentsDir },
+    )
+    return { agentsDir, componentsDir }
+  }
+
+  const sharedComponentErrors = (
+    results: Awaited<ReturnType<typeof validate>>,
+  ) =>
+    results
+      .flatMap((r) => r.problems)
+      .filter((p) => p.message.includes("unknown shared component"))
+
+  test("checks flows' shared component references against pulled components", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "retell-validate-"))
+    try {
+      // The fixture flow references conversation_flow_component_abc123
+      const missing = await pullFixture(path.join(dir, "missing"), [
+        "conversation_flow_component_other",
+      ])
+      expect(sharedComponentErrors(await validate(missing))).toEqual([
+        {
+          severity: "error",
+          check: "flow-graph",
+          message:
+            'Node "Collect Name" references unknown shared component "conversation_flow_component_abc123"',
+        },
+      ])
+
+      const pulled = await pullFixture(path.join(dir, "pulled"), [
+        "conversation_flow_component_abc123",
+      ])
+      expect(sharedComponentErrors(await validate(pulled))).toEqual([])
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -37,3 +37,109 @@ export function createChatAnalysisSchema<TAnalysis extends z.ZodType>(
     custom_analysis_data: analysisData,
   })
 }
+
+// ---------------------------------------------------------------------------
+// Analysis data from agent config
+// ---------------------------------------------------------------------------
+
+/** One `post_call_analysis_data` / `post_chat_analysis_data` entry. */
+type AnalysisField = {
+  readonly type: "string" | "enum" | "boolean" | "number"
+  readonly name: string
+  readonly choices?: readonly string[]
+}
+
+type FieldValueSchema<F extends AnalysisField> = F extends {
+  type: "enum"
+  choices: readonly [string, ...string[]]
+}
+  ? z.ZodCatch<
+      z.ZodOptional<
+        z.ZodNullable<z.ZodEnum<{ [K in F["choices"][number]]: K }>>
+      >
+    >
+  : z.ZodOptional<
+      z.ZodNullable<
+        F extends { type: "boolean" }
+          ? z.ZodBoolean
+          : F extends { type: "number" }
+            ? z.ZodNumber
+            : z.ZodString
+      >
+    >
+
+/**
+ * Object shape for a list of analysis fields. Literal (`as const`) field lists
+ * get one typed key per field; lists only known at runtime fall back to the
+ * loose default shape.
+ */
+type AnalysisDataShape<TFields extends readonly AnalysisField[]> =
+  string extends TFields[number]["name"]
+    ? {}
+    : { [F in TFields[number] as F["name"]]: FieldValueSchema<F> }
+
+/**
+ * Schema for one field's value. Retell sends `null` for fields analysis
+ * couldn't fill, and enum values outside the configured choices (e.g. after the
+ * choices changed) are caught as `null` rather than failing the webhook.
+ */
+function fieldSchema(field: AnalysisField) {
+  switch (field.type) {
+    case "enum": {
+      const [first, ...rest] = field.choices ?? []
+      return first != null
+        ? z
+            .enum([first, ...rest])
+            .nullable()
+            .optional()
+            .catch(null)
+        : z.string().nullable().optional()
+    }
+    case "boolean":
+      return z.boolean().nullable().optional()
+    case "number":
+      return z.number().nullable().optional()
+    default:
+      return z.string().nullable().optional()
+  }
+}
+
+/**
+ * Builds the `analysisData` schema for `createCallSchemas()` or
+ * `createChatSchemas()` from an agent's analysis field definitions, so webhook
+ * types can't drift from the agent configuration. Enum fields become
+ * `z.enum(choices)`, with unknown choices caught as `null`; every field is
+ * nullable and optional since analysis may not extract it. Like
+ * `callSchemaDefaults.analysisData`, the object is loose and optional.
+ *
+ * ```ts
+ * const schemas = createCallSchemas({
+ *   ...callSchemaDefaults,
+ *   analysisData: analysisSchemaFromFields(agent.post_call_analysis_data),
+ * })
+ * ```
+ *
+ * Pass an `as const` field list to get typed keys at compile time.
+ */
+export function analysisSchemaFromFields<
+  const TFields extends readonly AnalysisField[],
+>(fields: TFields | null | undefined) {
+  const shape = Object.fromEntries(
+    (fields ?? []).map((field) => [field.name, fieldSchema(field)]),
+  ) as AnalysisDataShape<TFields>
+  return z.looseObject(shape).optional()
+}
+
+/** `analysisSchemaFromFields()` for a voice agent's `post_call_analysis_data`. */
+export function callAnalysisDataFromAgent<
+  const TFields extends readonly AnalysisField[],
+>(agent: { post_call_analysis_data?: TFields | null }) {
+  return analysisSchemaFromFields(agent.post_call_analysis_data)
+}
+
+/** `analysisSchemaFromFields()` for a chat agent's `post_chat_analysis_data`. */
+export function chatAnalysisDataFromAgent<
+  const TFields extends readonly AnalysisField[],
+>(agent: { post_chat_analysis_data?: TFields | null }) {
+  return analysisSchemaFromFields(agent.post_chat_analysis_data)
+}
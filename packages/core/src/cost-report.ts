@@ -0,0 +1,252 @@
+import type { z } from "zod"
+import type { CallCostSchema, ChatCostSchema } from "./cost"
+import { toCsv } from "./utils"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The call fields cost aggregation reads. Any parsed call satisfies this. */
+export interface CostCallLike {
+  call_id: string
+  agent_id?: string
+  agent_version?: number
+  start_timestamp: Date
+  duration_ms?: number
+  disconnection_reason?: string
+  call_cost?: z.output<typeof CallCostSchema>
+  call_analysis?: { call_successful?: boolean }
+}
+
+/** The chat fields cost aggregation reads. Any parsed chat satisfies this. */
+export interface CostChatLike {
+  chat_id: string
+  agent_id?: string
+  version?: number | null
+  start_timestamp?: Date
+  end_timestamp?: Date | null
+  chat_cost?: z.output<typeof ChatCostSchema>
+  chat_analysis?: { chat_successful?: boolean }
+}
+
+/** Totals for one group of calls/chats. Costs are in cents. */
+export interface CostGroup {
+  key: string
+  conversations: number
+  calls: number
+  chats: number
+  /** Conversations whose analysis marked them successful. */
+  successful: number
+  durationMs: number
+  cost: number
+  /** Cost per minute of conversation. Undefined if no duration is known. */
+  costPerMinute: number | undefined
+  /**
+   * Total cost divided by successful conversations, i.e. what each success cost
+   * including the failures around it. Undefined if none succeeded.
+   */
+  costPerSuccessful: number | undefined
+}
+
+/** Cost totals overall and broken down by each dimension. */
+export interface CostReport {
+  total: CostGroup
+  /** Per `product_costs` product. Only conversations using it are counted. */
+  byProduct: CostGroup[]
+  byAgent: CostGroup[]
+  /** Keyed `<agent_id>@v<version>`. */
+  byAgentVersion: CostGroup[]
+  /** Keyed by UTC start date (`YYYY-MM-DD`), in date order. */
+  byDay: CostGroup[]
+  /** Calls only; chats have no disconnection reason. */
+  byDisconnectionReason: CostGroup[]
+}
+
+type CostDimension = Exclude<keyof CostReport, "total">
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+type Totals = Omit<CostGroup, "costPerMinute" | "costPerSuccessful">
+
+function emptyTotals(key: string): Totals {
+  return {
+    key,
+    conversations: 0,
+    calls: 0,
+    chats: 0,
+    successful: 0,
+    durationMs: 0,
+    cost: 0,
+  }
+}
+
+function finish(totals: Totals): CostGroup {
+  return {
+    ...totals,
+    costPerMinute:
+      totals.durationMs > 0
+        ? totals.cost / (totals.durationMs / 60_000)
+        : undefined,
+    costPerSuccessful:
+      totals.successful > 0 ? totals.cost / totals.successful : undefined,
+  }
+}
+
+/**
+ * The call schemas fall back to the epoch for a missing `start_timestamp`
+ * (calls that never connected), which isn't a real start time.
+ */
+const startTime = (date: Date | undefined) =>
+  date && date.getTime() !== 0 ? date : undefined
+
+/** Normalizes a call or chat into what aggregation needs. */
+function normalize(conversation: CostCallLike | CostChatLike) {
+  if ("call_id" in conversation) {
+    const cost = conversation.call_cost
+    return {
+      isCall: true,
+      agentId: conversation.agent_id,
+      version: conversation.agent_version,
+      startedAt: startTime(conversation.start_timestamp),
+      durationMs: conversation.duration_ms ?? 0,
+      disconnectionReason: conversation.disconnection_reason ?? "unknown",
+      successful: conversation.call_analysis?.call_successful === true,
+      cost: cost?.combined_cost ?? 0,
+      productCosts: cost?.product_costs ?? [],
+    }
+  }
+  const cost = conversation.chat_cost
+  const productCosts = cost?.product_costs ?? []
+  const start = startTime(conversation.start_timestamp)
+  const end = conversation.end_timestamp
+  return {
+    isCall: false,
+    agentId: conversation.agent_id,
+    version: conversation.version ?? undefined,
+    startedAt: start,
+    durationMs: start && end ? end.getTime() - start.getTime() : 0,
+    disconnectionReason: undefined,
+    successful: conversation.chat_analysis?.chat_successful === true,
+    cost:
+      cost?.combined_cost ?? productCosts.reduce((sum, p) => sum + p.cost, 0),
+    productCosts,
+  }
+}
+
+const byCostDesc = (a: CostGroup, b: CostGroup) => b.cost - a.cost
+
+/**
+ * Sums call and chat costs overall and by product, agent, agent version, day
+ * and disconnection reason. Accepts any mix of parsed calls and chats (e.g.
+ * `CallSchemas.analyzed` output); conversations without cost data count toward
+ * volume and duration with zero cost.
+ *
+ * ```ts
+ * const report = aggregateCosts(calls)
+ * report.byAgentVersion.map((g) => [g.key, g.costPerSuccessful])
+ * await Bun.write("costs.csv", formatCostReport(report, "csv"))
+ * ```
+ */
+export function aggregateCosts(
+  conversations: Iterable<CostCallLike | CostChatLike>,
+): CostReport {
+  const total = emptyTotals("total")
+  const groups: Record<CostDimension, Map<string, Totals>> = {
+    byProduct: new Map(),
+    byAgent: new Map(),
+    byAgentVersion: new Map(),
+    byDay: new Map(),
+    byDisconnectionReason: new Map(),
+  }
+
+  for (const conversation of conversations) {
+    const c = normalize(conversation)
+    const add = (
+      dimension: CostDimension | undefined,
+      key: string,
+      cost = c.cost,
+    ) => {
+      let totals = total
+      if (dimension) {
+        totals = groups[dimension].get(key) ?? emptyTotals(key)
+        groups[dimension].set(key, totals)
+      }
+      totals.conversations++
+      if (c.isCall) totals.calls++
+      else totals.chats++
+      if (c.successful) totals.successful++
+      totals.durationMs += c.durationMs
+      totals.cost += cost
+    }
+
+    const agentId = c.agentId ?? "unknown"
+    add(undefined, "total")
+    add("byAgent", agentId)
+    add("byAgentVersion", `${agentId}@v${c.version ?? "?"}`)
+    add("byDay", c.startedAt?.toISOString().slice(0, 10) ?? "unknown")
+    if (c.disconnectionReason) {
+      add("byDisconnectionReason", c.disconnectionReason)
+    }
+
+    // A product can appear more than once per conversation; count it once.
+    const productCosts = new Map<string, number>()
+    for (const { product, cost } of c.productCosts) {
+      productCosts.set(product, (productCosts.get(product) ?? 0) + cost)
+    }
+    for (const [product, cost] of productCosts) add("byProduct", product, cost)
+  }
+
+  const list = (dimension: CostDimension) =>
+    [...groups[dimension].values()].map(finish).sort(byCostDesc)
+
+  return {
+    total: finish(total),
+    byProduct: list("byProduct"),
+    byAgent: list("byAgent"),
+    byAgentVersion: list("byAgentVersion"),
+    byDay: [...groups.byDay.values()]
+      .map(finish)
+      .sort((a, b) => a.key.localeCompare(b.key)),
+    byDisconnectionReason: list("byDisconnectionReason"),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Serializes a cost report. CSV has one row per group, with a `dimension`
+ * column (`total`, `product`, `agent`, `agent_version`, `day`,
+ * `disconnection_reason`); JSON is the report as-is.
+ */
+export function formatCostReport(report: CostReport, format: "csv" | "json") {
+  if (format === "json") return JSON.stringify(report, null, 2)
+
+  const dimensions: [string, CostGroup[]][] = [
+    ["total", [report.total]],
+    ["product", report.byProduct],
+    ["agent", report.byAgent],
+    ["agent_version", report.byAgentVersion],
+    ["day", report.byDay],
+    ["disconnection_reason", report.byDisconnectionReason],
+  ]
+  return toCsv(
+    dimensions.flatMap(([dimension, groups]) =>
+      groups.map((g) => ({
+        dimension,
+        key: g.key,
+        conversations: g.conversations,
+        calls: g.calls,
+        chats: g.chats,
+        successful: g.successful,
+        duration_ms: g.durationMs,
+        cost: g.cost,
+        cost_per_minute: g.costPerMinute,
+        cost_per_successful: g.costPerSuccessful,
+      })),
+    ),
+  )
+}
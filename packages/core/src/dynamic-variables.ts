@@ -0,0 +1,440 @@
+import type { z } from "zod"
+import type { ConversationFlowResponseSchema } from "./flow"
+import type { LlmResponseSchema } from "./llm"
+
+// ---------------------------------------------------------------------------
+// Placeholders
+// ---------------------------------------------------------------------------
+
+/** Matches a `{{variable}}` placeholder, capturing the trimmed name. */
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g
+
+/**
+ * Variables Retell fills in at runtime. Time and calendar variables also come
+ * in per-timezone forms (`current_time_America/New_York`).
+ */
+export const RETELL_SYSTEM_VARIABLES = [
+  "current_time",
+  "current_calendar",
+  "session_type",
+  "session_duration",
+  "call_id",
+  "chat_id",
+  "user_number",
+  "agent_number",
+  "current_agent_state",
+  "previous_agent_state",
+] as const
+
+/** Whether `name` is one of Retell's built-in system variables. */
+export function isSystemVariable(name: string) {
+  return (
+    (RETELL_SYSTEM_VARIABLES as readonly string[]).includes(name) ||
+    name.startsWith("current_time_") ||
+    name.startsWith("current_calendar_")
+  )
+}
+
+/** Returns the distinct `{{variable}}` names in `text`, in order of appearance. */
+export function extractDynamicVariables(text: string) {
+  return [
+    ...new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), (m) => m[1]!)),
+  ]
+}
+
+// ---------------------------------------------------------------------------
+// Usage analysis
+// ---------------------------------------------------------------------------
+
+type Llm = z.output<typeof LlmResponseSchema>
+type ConversationFlow = z.output<typeof ConversationFlowResponseSchema>
+
+/**
+ * The LLM or conversation flow fields the analyzer reads. Any parsed LLM or
+ * flow (or a pulled local config) satisfies this.
+ */
+export type DynamicVariableConfig = Partial<
+  Pick<
+    Llm,
+    | "general_prompt"
+    | "begin_message"
+    | "general_tools"
+    | "states"
+    | "default_dynamic_variables"
+  > &
+    Pick<ConversationFlow, "global_prompt" | "tools" | "nodes" | "components">
+>
+
+/** Everything known about one dynamic variable in a config. */
+export interface DynamicVariableInfo {
+  name: string
+  /**
+   * Where the variable is referenced, as paths into the config with array items
+   * labelled by name (`states[intake].state_prompt`,
+   * `general_tools[lookup].headers.Authorization`).
+   */
+  usages: string[]
+  /** Whether `default_dynamic_variables` declares it. */
+  hasDefault: boolean
+  /** Whether Retell fills it in at runtime. */
+  system: boolean
+  /**
+   * Where the variable gets a value during the conversation:
+   * `extract_dynamic_variables` nodes, `extract_dynamic_variable` tools and
+   * custom tools' `response_variables`.
+   */
+  producedBy: string[]
+}
+
+export type DynamicVariableIssue =
+  | {
+      type: "possible_typo"
+      name: string
+      /** The known variable the name is closest to. */
+      suggestion: string
+      message: string
+    }
+  | { type: "unused_default"; name: string; message: string }
+  | {
+      type: "extracted_only"
+      name: string
+      producedBy: string[]
+      message: string
+    }
+
+export interface DynamicVariableReport {
+  /** Referenced or declared variables, sorted by name. */
+  variables: DynamicVariableInfo[]
+  issues: DynamicVariableIssue[]
+}
+
+/** Label for an array item: its `name` or `id` if it has one, else its index. */
+function itemLabel(item: unknown, index: number) {
+  if (item != null && typeof item === "object") {
+    const { name, id } = item as { name?: unknown; id?: unknown }
+    if (typeof name === "string" && name) return name
+    if (typeof id === "string" && id) return id
+  }
+  return String(index)
+}
+
+/** Calls `visit` for every string in `value` with its labelled path. */
+function walkStrings(
+  value: unknown,
+  path: string,
+  visit: (text: string, path: string) => void,
+) {
+  if (typeof value === "string") {
+    visit(value, path)
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) =>
+      walkStrings(item, `${path}[${itemLabel(item, i)}]`, visit),
+    )
+  } else if (value != null && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      walkStrings(item, path ? `${path}.${key}` : key, visit)
+    }
+  }
+}
+
+/** Names declared in an extract node's or tool's `variables` list. */
+function extractedNames(holder: object) {
+  const { variables } = holder as { variables?: unknown }
+  if (!Array.isArray(variables)) return []
+  return variables.flatMap((v: { name?: unknown } | null) =>
+    typeof v?.name === "string" ? [v.name] : [],
+  )
+}
+
+/** Levenshtein distance, case-insensitive. */
+function editDistance(a: string, b: string) {
+  a = a.toLowerCase()
+  b = b.toLowerCase()
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        prev[j]! + 1,
+        row[j - 1]! + 1,
+        prev[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+      )
+    }
+    prev = row
+  }
+  return prev[b.length]!
+}
+
+/**
+ * Lists every `{{variable}}` an LLM or conversation flow references (every
+ * prompt, instruction, `begin_message`, edge condition and tool field,
+ * including multi-prompt states and flow components), where it's used, and
+ * whether it has a default or is produced mid-conversation. Flags likely typos
+ * (an unresolved name within a couple of edits of a known one), defaults that
+ * are never referenced, and variables that only extraction nodes or tools
+ * produce and so are empty until that point.
+ *
+ * ```ts
+ * const { variables, issues } = analyzeDynamicVariables(llm)
+ * for (const issue of issues) console.warn(issue.message)
+ * ```
+ */
+export function analyzeDynamicVariables(
+  config: DynamicVariableConfig,
+): DynamicVariableReport {
+  const defaults = config.default_dynamic_variables ?? {}
+  const usages = new Map<string, string[]>()
+  const producers = new Map<string, string[]>()
+  const addTo = (map: Map<string, string[]>, name: string, where: string) =>
+    map.set(name, [...(map.get(name) ?? []), where])
+
+  const { default_dynamic_variables: _, ...rest } = config
+  walkStrings(rest, "", (text, path) => {
+    for (const name of extractDynamicVariables(text)) addTo(usages, name, path)
+  })
+
+  const producing: [string, object][] = [
+    ...(config.nodes ?? []).map((n): [string, object] => [
+      `nodes[${n.name}]`,
+      n,
+    ]),
+    ...(config.components ?? []).flatMap((c, i) =>
+      (c.nodes ?? []).map((n): [string, object] => [
+        `components[${itemLabel(c, i)}].nodes[${n.name}]`,
+        n,
+      ]),
+    ),
+  ]
+  const toolLists: [string, readonly { name?: string }[] | null | undefined][] =
+    [
+      ["general_tools", config.general_tools],
+      ["tools", config.tools],
+      ...(config.states ?? []).map((s): [string, typeof s.tools] => [
+        `states[${s.name}].tools`,
+        s.tools,
+      ]),
+      ...(config.components ?? []).map((c, i): [string, typeof c.tools] => [
+        `components[${itemLabel(c, i)}].tools`,
+        c.tools,
+      ]),
+    ]
+  for (const [path, tools] of toolLists) {
+    for (const [i, tool] of (tools ?? []).entries()) {
+      producing.push([`${path}[${itemLabel(tool, i)}]`, tool])
+    }
+  }
+  for (const [path, holder] of producing) {
+    const { type, response_variables } = holder as {
+      type?: string
+      response_variables?: Record<string, string>
+    }
+    if (
+      type === "extract_dynamic_variables" ||
+      type === "extract_dynamic_variable"
+    ) {
+      for (const name of extractedNames(holder)) addTo(producers, name, path)
+    }
+    for (const name of Object.keys(response_variables ?? {})) {
+      addTo(producers, name, `${path}.response_variables`)
+    }
+  }
+
+  const names = [
+    ...new Set([...usages.keys(), ...Object.keys(defaults)]),
+  ].sort()
+  const variables = names.map(
+    (name): DynamicVariableInfo => ({
+      name,
+      usages: usages.get(name) ?? [],
+      hasDefault: Object.hasOwn(defaults, name),
+      system: isSystemVariable(name),
+      producedBy: producers.get(name) ?? [],
+    }),
+  )
+
+  // Names a typo could have meant: anything with a value source, plus more
+  // frequently referenced names (likely supplied per call).
+  const known = [
+    ...new Set([
+      ...Object.keys(defaults),
+      ...producers.keys(),
+      ...RETELL_SYSTEM_VARIABLES,
+    ]),
+  ]
+  const issues: DynamicVariableIssue[] = []
+  for (const v of variables) {
+    if (v.hasDefault && v.usages.length === 0) {
+      issues.push({
+        type: "unused_default",
+        name: v.name,
+        message: `Default for {{${v.name}}} is never referenced`,
+      })
+      continue
+    }
+    if (v.hasDefault || v.system) continue
+
+    if (v.producedBy.length > 0) {
+      issues.push({
+        type: "extracted_only",
+        name: v.name,
+        producedBy: v.producedBy,
+        message: `{{${v.name}}} has no default and is only set by ${v.producedBy.join(", ")}`,
+      })
+      continue
+    }
+
+    const candidates = [
+      ...known,
+      ...variables
+        .filter((o) => o.usages.length > v.usages.length)
+        .map((o) => o.name),
+    ]
+    const maxDistance = v.name.length <= 5 ? 1 : 2
+    let suggestion: string | undefined
+    let best = maxDistance + 1
+    for (const candidate of candidates) {
+      if (candidate === v.name) continue
+      const distance = editDistance(v.name, candidate)
+      if (distance < best) {
+        best = distance
+        suggestion = candidate
+      }
+    }
+    if (suggestion) {
+      issues.push({
+        type: "possible_typo",
+        name: v.name,
+        suggestion,
+        message: `{{${v.name}}} may be a typo for {{${suggestion}}} (used in ${v.usages.join(", ")})`,
+      })
+    }
+  }
+
+  return { variables, issues }
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+export interface RenderPromptOptions {
+  /**
+   * Per-conversation values (`retell_llm_dynamic_variables`). Win over
+   * defaults.
+   */
+  variables?: Record<string, string> | null
+  /** The LLM's or flow's `default_dynamic_variables`. */
+  defaults?: Record<string, string> | null
+  /** Time used for `current_time` and `current_calendar`. Defaults to now. */
+  now?: Date
+  /** Timezone for `current_time` and `current_calendar`. */
+  timeZone?: string
+  /**
+   * Formats a placeholder that has no value, e.g. to color it in a terminal. By
+   * default it's left as written.
+   */
+  highlight?: (placeholder: string, name: string) => string
+}
+
+export interface RenderedPrompt {
+  text: string
+  /** Distinct names of placeholders that had no value, in order. */
+  unresolved: string[]
+}
+
+const DEFAULT_TIME_ZONE = "America/Los_Angeles"
+
+function formatDay(date: Date, timeZone: string) {
+  return date.toLocaleDateString("en-US", {
+    timeZone,
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+function formatTime(date: Date, timeZone: string) {
+  const time = date.toLocaleTimeString("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  })
+  return `${formatDay(date, timeZone)} at ${time}`
+}
+
+/** The current time followed by the next 14 days. */
+function formatCalendar(date: Date, timeZone: string) {
+  const days = Array.from({ length: 14 }, (_, i) =>
+    formatDay(new Date(date.getTime() + (i + 1) * 86_400_000), timeZone),
+  )
+  return [`Now: ${formatTime(date, timeZone)}`, ...days].join("\n")
+}
+
+/** `record[name]`, ignoring keys inherited from `Object.prototype`. */
+function ownValue(
+  record: Record<string, string> | null | undefined,
+  name: string,
+) {
+  return record && Object.hasOwn(record, name) ? record[name] : undefined
+}
+
+/**
+ * Value of a time or calendar system variable, including per-timezone forms.
+ * Undefined for other variables and unknown timezones.
+ */
+function timeVariable(name: string, now: Date, timeZone: string) {
+  const [format, zone] = name.startsWith("current_time")
+    ? [formatTime, name.slice("current_time_".length)]
+    : name.startsWith("current_calendar")
+      ? [formatCalendar, name.slice("current_calendar_".length)]
+      : []
+  if (!format || !isSystemVariable(name)) return undefined
+  try {
+    return format(now, zone || timeZone)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Substitutes `{{variable}}` placeholders the way Retell does before a prompt
+ * reaches the model: supplied variables first, then
+ * `default_dynamic_variables`, then `current_time`/`current_calendar` (and
+ * their per-timezone forms). Other system variables such as `user_number` only
+ * resolve when supplied. Time formatting approximates Retell's. Placeholders
+ * without a value are left in place and reported.
+ *
+ * ```ts
+ * const { text, unresolved } = renderPrompt(llm.general_prompt ?? "", {
+ *   variables: { customer_name: "Ada" },
+ *   defaults: llm.default_dynamic_variables,
+ * })
+ * ```
+ */
+export function renderPrompt(
+  template: string,
+  {
+    variables,
+    defaults,
+    now = new Date(),
+    timeZone = DEFAULT_TIME_ZONE,
+    highlight,
+  }: RenderPromptOptions = {},
+): RenderedPrompt {
+  const unresolved = new Set<string>()
+  const text = template.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name: string) => {
+      const value =
+        ownValue(variables, name) ??
+        ownValue(defaults, name) ??
+        timeVariable(name, now, timeZone)
+      if (value != null) return value
+      unresolved.add(name)
+      return highlight ? highlight(placeholder, name) : placeholder
+    },
+  )
+  return { text, unresolved: [...unresolved] }
+}
@@ -0,0 +1,153 @@
+import type { z } from "zod"
+import { renderPrompt } from "./dynamic-variables"
+import type {
+  FlowEdgeSchema,
+  FlowEquationSchema,
+  FlowTransitionConditionSchema,
+} from "./flow"
+
+type FlowEquation = z.output<typeof FlowEquationSchema>
+type FlowTransitionCondition = z.output<typeof FlowTransitionConditionSchema>
+type FlowEdge = z.output<typeof FlowEdgeSchema>
+
+// ---------------------------------------------------------------------------
+// Equations
+// ---------------------------------------------------------------------------
+
+/** Parses a dynamic variable value as a number, if it is one. */
+function toNumber(value: string) {
+  const trimmed = value.trim()
+  if (trimmed === "") return undefined
+  const number = Number(trimmed)
+  return Number.isFinite(number) ? number : undefined
+}
+
+/**
+ * Resolves one side of an equation. Sides are usually `{{variable}}`
+ * placeholders or literals; a bare name on the left is read as a variable.
+ * Undefined when a referenced variable has no value.
+ */
+function resolveSide(
+  text: string,
+  variables: Record<string, string>,
+  bareIsVariable: boolean,
+) {
+  if (bareIsVariable && !text.includes("{{")) {
+    return Object.hasOwn(variables, text) ? variables[text] : undefined
+  }
+  const { text: resolved, unresolved } = renderPrompt(text, { variables })
+  return unresolved.length > 0 ? undefined : resolved
+}
+
+/**
+ * Evaluates a single equation against dynamic variables, the way Retell does:
+ *
+ * - `exists` / `not_exist` check whether the left side's variable has a value (an
+ *   empty string counts as a value).
+ * - `==` / `!=` compare numerically when both sides are numbers, otherwise as
+ *   exact strings.
+ * - `>`, `>=`, `<`, `<=` compare numerically and are false if either side is not
+ *   a number.
+ * - `contains` / `not_contains` are case-sensitive substring checks.
+ *
+ * Every operator other than `not_exist` is false when a variable on either side
+ * has no value.
+ */
+export function evaluateEquation(
+  equation: FlowEquation,
+  variables: Record<string, string>,
+): boolean {
+  const left = resolveSide(equation.left, variables, true)
+  if (equation.operator === "exists") return left !== undefined
+  if (equation.operator === "not_exist") return left === undefined
+
+  const right = resolveSide(equation.right ?? "", variables, false)
+  if (left === undefined || right === undefined) return false
+
+  const leftNumber = toNumber(left)
+  const rightNumber = toNumber(right)
+  const bothNumbers = leftNumber !== undefined && rightNumber !== undefined
+
+  switch (equation.operator) {
+    case "==":
+      return bothNumbers ? leftNumber === rightNumber : left === right
+    case "!=":
+      return bothNumbers ? leftNumber !== rightNumber : left !== right
+    case ">":
+      return bothNumbers && leftNumber > rightNumber
+    case ">=":
+      return bothNumbers && leftNumber >= rightNumber
+    case "<":
+      return bothNumbers && leftNumber < rightNumber
+    case "<=":
+      return bothNumbers && leftNumber <= rightNumber
+    case "contains":
+      return left.includes(right)
+    case "not_contains":
+      return !left.includes(right)
+  }
+}
+
+/**
+ * Evaluates an `equation` transition condition: its equations joined by
+ * `operator` (`&&` when unset). A condition without equations never fires.
+ * Throws for `prompt` conditions, which only the model can evaluate.
+ */
+export function evaluateTransitionCondition(
+  condition: FlowTransitionCondition,
+  variables: Record<string, string>,
+): boolean {
+  if (condition.type !== "equation") {
+    throw new Error(
+      `Cannot evaluate a ${condition.type ?? "untyped"} condition locally`,
+    )
+  }
+  const equations = condition.equations ?? []
+  if (equations.length === 0) return false
+  return condition.operator === "||"
+    ? equations.some((e) => evaluateEquation(e, variables))
+    : equations.every((e) => evaluateEquation(e, variables))
+}
+
+// ---------------------------------------------------------------------------
+// Edge selection
+// ---------------------------------------------------------------------------
+
+export interface PickEdgeOptions {
+  /**
+   * Decides edges with a `prompt` condition. Without it, reaching a prompt edge
+   * throws.
+   */
+  resolvePrompt?: (edge: FlowEdge) => boolean
+}
+
+/**
+ * Returns the edge a branch node takes: the first of `edges` whose condition
+ * holds, in order, else the `else_edge`. Equation conditions are evaluated
+ * against `variables`; prompt conditions go to `resolvePrompt`.
+ *
+ * ```ts
+ * const edge = pickBranchEdge(node, { plan: "pro", seats: "12" })
+ * const next = edge?.destination_node_id
+ * ```
+ */
+export function pickBranchEdge(
+  node: { edges: readonly FlowEdge[]; else_edge?: FlowEdge },
+  variables: Record<string, string>,
+  { resolvePrompt }: PickEdgeOptions = {},
+): FlowEdge | undefined {
+  for (const edge of node.edges) {
+    const condition = edge.transition_condition
+    if (!condition) continue
+    if (condition.type === "equation") {
+      if (evaluateTransitionCondition(condition, variables)) return edge
+    } else if (resolvePrompt) {
+      if (resolvePrompt(edge)) return edge
+    } else {
+      throw new Error(
+        `Edge "${edge.id ?? edge.destination_node_id}" has a prompt condition; pass resolvePrompt`,
+      )
+    }
+  }
+  return node.else_edge
+}
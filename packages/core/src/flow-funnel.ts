@@ -0,0 +1,252 @@
+import type { z } from "zod"
+import type { ConversationFlowResponseSchema, FlowNodeSchema } from "./flow"
+import { getNodeEdges } from "./flow-graph"
+import { type NodeVisit, reconstructNodePath } from "./node-path"
+import type { TranscriptEntrySchema } from "./transcript"
+import { mermaidLabel } from "./utils"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type ConversationFlow = z.output<typeof ConversationFlowResponseSchema>
+type FlowNode = z.output<typeof FlowNodeSchema>
+
+/** The call fields funnel analysis reads. Any parsed call satisfies this. */
+export interface FunnelCallLike {
+  transcript_with_tool_calls: readonly z.output<typeof TranscriptEntrySchema>[]
+  duration_ms?: number
+  disconnection_reason?: string
+}
+
+/** How often the conversation left a node for a given destination. */
+export interface FunnelExit {
+  destinationNodeId: string | undefined
+  destinationName: string | undefined
+  /**
+   * Id of the node's edge that leads to the destination. Undefined for global
+   * transitions, or when the flow has no matching edge.
+   */
+  edgeId: string | undefined
+  /** True when the exit was a global node firing rather than an edge. */
+  global: boolean
+  count: number
+}
+
+/** Funnel statistics for one node. */
+export interface NodeFunnel {
+  nodeId: string
+  name: string | undefined
+  /** Undefined for nodes seen in transcripts but missing from the flow. */
+  type: FlowNode["type"] | undefined
+  /** Whether the node has a `global_node_setting`. */
+  isGlobal: boolean
+  /** Total visits, counting repeat visits within a call. */
+  entries: number
+  /** Distinct calls that visited the node. */
+  calls: number
+  /** Visits that came from a global node firing. */
+  globalEntries: number
+  /** Exits by destination, most frequent first. */
+  exits: FunnelExit[]
+  /** Calls that ended while in this node. */
+  hangUps: number
+  /** `disconnection_reason` counts for calls that ended in this node. */
+  hangUpReasons: Record<string, number>
+  /** Average time per visit. Undefined if no visit had a known dwell time. */
+  averageDwellMs: number | undefined
+}
+
+/** Funnel report for a conversation flow across many calls. */
+export interface FlowFunnelReport {
+  conversationFlowId: string
+  version: number
+  calls: number
+  /** Flow nodes in definition order, then unknown nodes seen in transcripts. */
+  nodes: NodeFunnel[]
+  /** Global nodes by how often they fired, most frequent first. */
+  globalNodeFires: { nodeId: string; name: string | undefined; count: number }[]
+}
+
+// ---------------------------------------------------------------------------
+// Analysis
+// ---------------------------------------------------------------------------
+
+type Tally = Omit<NodeFunnel, "exits" | "calls" | "averageDwellMs"> & {
+  exits: Map<string, FunnelExit>
+  callIds: Set<number>
+  dwellTotal: number
+  dwellCount: number
+}
+
+/** Every node in the flow, including nodes inside embedded components. */
+function flowNodes(flow: ConversationFlow) {
+  return [
+    ...(flow.nodes ?? []),
+    ...(flow.components ?? []).flatMap((c) => c.nodes ?? []),
+  ]
+}
+
+/**
+ * Computes a per-node funnel for a conversation flow agent from many calls'
+ * node transitions: entries, exits per edge, hang-ups with their
+ * `disconnection_reason`, average dwell time, and how often global nodes fire.
+ * Calls without any transition are counted as staying in `start_node_id`.
+ *
+ * ```ts
+ * const report = analyzeFlowFunnel(flow, calls)
+ * await Bun.write("funnel.mmd", renderFunnelMermaid(report))
+ * ```
+ */
+export function analyzeFlowFunnel(
+  flow: ConversationFlow,
+  calls: Iterable<FunnelCallLike>,
+): FlowFunnelReport {
+  const nodes = flowNodes(flow)
+  const nodeById = new Map(nodes.map((n) => [n.id, n]))
+  const tallies = new Map<string, Tally>()
+
+  const tallyFor = (id: string, name: string | undefined) => {
+    let tally = tallies.get(id)
+    if (!tally) {
+      const node = nodeById.get(id)
+      tally = {
+        nodeId: id,
+        name: node?.name ?? name,
+        type: node?.type,
+        isGlobal: node?.global_node_setting != null,
+        entries: 0,
+        globalEntries: 0,
+        exits: new Map(),
+        hangUps: 0,
+        hangUpReasons: {},
+        callIds: new Set(),
+        dwellTotal: 0,
+        dwellCount: 0,
+      }
+      tallies.set(id, tally)
+    }
+    return tally
+  }
+  for (const node of nodes) tallyFor(node.id, node.name)
+
+  let callCount = 0
+  for (const call of calls) {
+    const callIndex = callCount++
+    let path: NodeVisit[] = reconstructNodePath(
+      call.transcript_with_tool_calls,
+      { endMs: call.duration_ms },
+    )
+    if (path.length === 0 && flow.start_node_id) {
+      const dwellMs = call.duration_ms
+      path = [
+        {
+          kind: "node",
+          id: flow.start_node_id,
+          name: undefined,
+          enteredAtMs: 0,
+          exitedAtMs: dwellMs,
+          dwellMs,
+          enteredViaGlobal: false,
+          transitionIndex: undefined,
+          utterances: [],
+        },
+      ]
+    }
+
+    path.forEach((visit, i) => {
+      if (!visit.id) return
+      const tally = tallyFor(visit.id, visit.name)
+      tally.entries++
+      tally.callIds.add(callIndex)
+      if (visit.enteredViaGlobal) tally.globalEntries++
+      if (visit.dwellMs != null) {
+        tally.dwellTotal += visit.dwellMs
+        tally.dwellCount++
+      }
+
+      const next = path[i + 1]
+      if (!next) {
+        const reason = call.disconnection_reason ?? "unknown"
+        tally.hangUps++
+        tally.hangUpReasons[reason] = (tally.hangUpReasons[reason] ?? 0) + 1
+        return
+      }
+
+      const exitKey = `${next.enteredViaGlobal}:${next.id}`
+      const exit = tally.exits.get(exitKey) ?? {
+        destinationNodeId: next.id,
+        destinationName: next.id ? nodeById.get(next.id)?.name : next.name,
+        edgeId: next.enteredViaGlobal
+          ? undefined
+          : edgeIdTo(nodeById.get(visit.id), next.id),
+        global: next.enteredViaGlobal,
+        count: 0,
+      }
+      exit.count++
+      tally.exits.set(exitKey, exit)
+    })
+  }
+
+  const funnels = [...tallies.values()].map(
+    ({ exits, callIds, dwellTotal, dwellCount, ...rest }): NodeFunnel => ({
+      ...rest,
+      calls: callIds.size,
+      exits: [...exits.values()].sort((a, b) => b.count - a.count),
+      averageDwellMs: dwellCount > 0 ? dwellTotal / dwellCount : undefined,
+    }),
+  )
+
+  return {
+    conversationFlowId: flow.conversation_flow_id,
+    version: flow.version,
+    calls: callCount,
+    nodes: funnels,
+    globalNodeFires: funnels
+      .filter((n) => n.globalEntries > 0)
+      .map((n) => ({ nodeId: n.nodeId, name: n.name, count: n.globalEntries }))
+      .sort((a, b) => b.count - a.count),
+  }
+}
+
+function edgeIdTo(
+  node: FlowNode | undefined,
+  destinationId: string | undefined,
+) {
+  if (!node || !destinationId) return undefined
+  return getNodeEdges(node).find((e) => e.destination_node_id === destinationId)
+    ?.id
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/**
+ * Renders a funnel report as a Mermaid flowchart. Nodes show entries, hang-ups
+ * and average dwell; edges show exit counts. Global transitions are dashed.
+ */
+export function renderFunnelMermaid(report: FlowFunnelReport) {
+  const ids = new Map(report.nodes.map((n, i) => [n.nodeId, `n${i}`]))
+  const lines = ["flowchart TD"]
+
+  for (const node of report.nodes) {
+    const dwell =
+      node.averageDwellMs != null
+        ? `, avg ${(node.averageDwellMs / 1000).toFixed(1)}s`
+        : ""
+    const label = `${node.name ?? node.nodeId}<br/>${node.entries} in, ${node.hangUps} hung up${dwell}`
+    lines.push(`  ${ids.get(node.nodeId)}["${mermaidLabel(label)}"]`)
+  }
+
+  for (const node of report.nodes) {
+    for (const exit of node.exits) {
+      const to = exit.destinationNodeId && ids.get(exit.destinationNodeId)
+      if (!to) continue
+      const arrow = exit.global ? "-.->" : "-->"
+      lines.push(`  ${ids.get(node.nodeId)} ${arrow}|${exit.count}| ${to}`)
+    }
+  }
+
+  return lines.join("\n")
+}
@@ -0,0 +1,313 @@
+import type { z } from "zod"
+import type {
+  ConversationFlowComponentResponseSchema,
+  ConversationFlowResponseSchema,
+  FlowComponentSchema,
+  FlowEdgeSchema,
+  FlowNodeSchema,
+} from "./flow"
+
+type FlowNode = z.output<typeof FlowNodeSchema>
+type FlowEdge = z.output<typeof FlowEdgeSchema>
+
+// ---------------------------------------------------------------------------
+// Edges
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns every outgoing edge of a conversation flow node: regular `edges` plus
+ * `always_edge`, `skip_response_edge`, `else_edge`, an SMS node's
+ * `success_edge`/`failed_edge` and the single `edge` of transfer and agent swap
+ * nodes, in that order. End and transfer bridge/cancel nodes have none.
+ */
+export function getNodeEdges(node: FlowNode): FlowEdge[] {
+  switch (node.type) {
+    case "conversation":
+      return [
+        ...node.edges,
+        ...(node.always_edge ? [node.always_edge] : []),
+        ...(node.skip_response_edge ? [node.skip_response_edge] : []),
+      ]
+    case "function":
+    case "component":
+      return [...node.edges, ...(node.else_edge ? [node.else_edge] : [])]
+    case "extract_dynamic_variables":
+    case "mcp":
+      return [
+        ...(node.edges ?? []),
+        ...(node.else_edge ? [node.else_edge] : []),
+      ]
+    case "press_digit":
+      return node.edges ?? []
+    case "branch":
+      return [...node.edges, node.else_edge]
+    case "sms":
+      return [
+        ...(node.success_edge ? [node.success_edge] : []),
+        ...(node.failed_edge ? [node.failed_edge] : []),
+      ]
+    case "transfer_call":
+      return [node.edge]
+    case "agent_swap":
+      return node.edge ? [node.edge] : []
+    case "end":
+    case "bridge_transfer":
+    case "cancel_transfer":
+      return []
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+type ConversationFlow = z.output<typeof ConversationFlowResponseSchema>
+type FlowComponent =
+  | z.output<typeof FlowComponentSchema>
+  | z.output<typeof ConversationFlowComponentResponseSchema>
+
+export type FlowGraphIssueType =
+  | "missing_start_node"
+  | "dangling_edge"
+  | "unreachable_node"
+  | "dead_end"
+  | "missing_else_edge"
+  | "unknown_tool"
+  | "unknown_component"
+
+/** A graph integrity problem in a conversation flow or component. */
+export interface FlowGraphIssue {
+  type: FlowGraphIssueType
+  /**
+   * Name (or id) of the embedded component the node belongs to. Undefined for
+   * the flow's own nodes and when validating a component directly.
+   */
+  component: string | undefined
+  nodeId: string | undefined
+  nodeName: string | undefined
+  message: string
+}
+
+export interface FlowGraphValidationOptions {
+  /**
+   * Ids of the account's shared components. When given, component nodes with
+   * `component_type: "shared"` must reference one of them; otherwise shared
+   * references aren't checked.
+   */
+  sharedComponentIds?: Iterable<string>
+}
+
+interface GraphScope {
+  nodes: readonly FlowNode[]
+  startNodeId: string | null | undefined
+  toolIds: ReadonlySet<string>
+  /** Undefined when the enclosing flow isn't known, so local refs go unchecked. */
+  localComponentIds: ReadonlySet<string> | undefined
+  sharedComponentIds: ReadonlySet<string> | undefined
+  component: string | undefined
+  /** How graph-level issues name the graph (`Flow`, `Component "Billing"`). */
+  label: string
+}
+
+function validateScope({
+  nodes,
+  startNodeId,
+  toolIds,
+  localComponentIds,
+  sharedComponentIds,
+  component,
+  label,
+}: GraphScope) {
+  const issues: FlowGraphIssue[] = []
+  const report = (
+    type: FlowGraphIssueType,
+    node: FlowNode | undefined,
+    detail: string,
+  ) => {
+    const scope = component ? ` in component "${component}"` : ""
+    const where = node ? `Node "${node.name}"${scope}` : label
+    issues.push({
+      type,
+      component,
+      nodeId: node?.id,
+      nodeName: node?.name,
+      message: `${where} ${detail}`,
+    })
+  }
+
+  const nodeById = new Map(nodes.map((n) => [n.id, n]))
+  const nameOf = (id: string) => nodeById.get(id)?.name ?? id
+
+  if (!startNodeId) {
+    if (nodes.length > 0) {
+      report("missing_start_node", undefined, "has no start_node_id")
+    }
+  } else if (!nodeById.has(startNodeId)) {
+    report(
+      "missing_start_node",
+      undefined,
+      `has start_node_id "${startNodeId}", which is not a node`,
+    )
+  }
+
+  for (const node of nodes) {
+    const edges = getNodeEdges(node)
+    for (const edge of edges) {
+      const to = edge.destination_node_id
+      if (to && !nodeById.has(to)) {
+        const edgeLabel = edge.id ? `edge "${edge.id}"` : "an edge"
+        report(
+          "dangling_edge",
+          node,
+          `has ${edgeLabel} to missing node "${to}"`,
+        )
+      }
+    }
+
+    switch (node.type) {
+      case "conversation":
+      case "press_digit":
+      case "extract_dynamic_variables":
+        if (!edges.some((e) => e.destination_node_id)) {
+          report("dead_end", node, "has no exit and is not an end node")
+        }
+        break
+      case "branch":
+        if (!node.else_edge?.destination_node_id) {
+          report("missing_else_edge", node, "has no else edge")
+        }
+        break
+      case "function":
+        if (node.tool_type !== "shared" && !toolIds.has(node.tool_id)) {
+          report("unknown_tool", node, `calls unknown tool "${node.tool_id}"`)
+        }
+        break
+      case "component": {
+        const known =
+          node.component_type === "shared"
+            ? sharedComponentIds
+            : localComponentIds
+        if (known && !known.has(node.component_id)) {
+          report(
+            "unknown_component",
+            node,
+            `references unknown ${node.component_type} component "${node.component_id}"`,
+          )
+        }
+        break
+      }
+    }
+  }
+
+  // Global nodes can be entered from anywhere, so they seed the walk too.
+  const reached = new Set<string>()
+  const queue = [
+    ...(startNodeId && nodeById.has(startNodeId) ? [startNodeId] : []),
+    ...nodes.filter((n) => n.global_node_setting != null).map((n) => n.id),
+  ]
+  while (queue.length > 0) {
+    const id = queue.pop()!
+    if (reached.has(id)) continue
+    reached.add(id)
+    for (const edge of getNodeEdges(nodeById.get(id)!)) {
+      const next = edge.destination_node_id
+      if (next && nodeById.has(next) && !reached.has(next)) queue.push(next)
+    }
+  }
+  if (startNodeId && nodeById.has(startNodeId)) {
+    for (const node of nodes) {
+      if (!reached.has(node.id)) {
+        report(
+          "unreachable_node",
+          node,
+          `is unreachable from start node "${nameOf(startNodeId)}"`,
+        )
+      }
+    }
+  }
+
+  return issues
+}
+
+const toolIdSet = (tools: readonly { tool_id?: string }[] | null | undefined) =>
+  new Set((tools ?? []).flatMap((t) => (t.tool_id ? [t.tool_id] : [])))
+
+/**
+ * Checks a conversation flow's graph, then each embedded component's: a missing
+ * or unknown `start_node_id`, edges whose `destination_node_id` doesn't exist,
+ * nodes unreachable from the start (global nodes count as reachable),
+ * conversation nodes with no way out, branch nodes without an else edge,
+ * function nodes calling a `tool_id` not in `tools`, and component nodes
+ * referencing unknown components. Function nodes with `tool_type: "shared"`
+ * aren't checked against `tools`.
+ *
+ * ```ts
+ * for (const issue of validateFlowGraph(flow)) console.error(issue.message)
+ * ```
+ */
+export function validateFlowGraph(
+  flow: Pick<
+    ConversationFlow,
+    "nodes" | "start_node_id" | "tools" | "components"
+  >,
+  options: FlowGraphValidationOptions = {},
+): FlowGraphIssue[] {
+  const toolIds = toolIdSet(flow.tools)
+  const localComponentIds = new Set(
+    (flow.components ?? []).flatMap((c) =>
+      c.conversation_flow_component_id
+        ? [c.conversation_flow_component_id]
+        : [],
+    ),
+  )
+  const sharedComponentIds = options.sharedComponentIds
+    ? new Set(options.sharedComponentIds)
+    : undefined
+
+  return [
+    ...validateScope({
+      nodes: flow.nodes ?? [],
+      startNodeId: flow.start_node_id,
+      toolIds,
+      localComponentIds,
+      sharedComponentIds,
+      component: undefined,
+      label: "Flow",
+    }),
+    ...(flow.components ?? []).flatMap((c, i) => {
+      const name = c.name ?? c.conversation_flow_component_id ?? `#${i + 1}`
+      return validateScope({
+        nodes: c.nodes ?? [],
+        startNodeId: c.start_node_id,
+        toolIds: new Set([...toolIds, ...toolIdSet(c.tools)]),
+        localComponentIds,
+        sharedComponentIds,
+        component: name,
+        label: `Component "${name}"`,
+      })
+    }),
+  ]
+}
+
+/**
+ * Runs the {@link validateFlowGraph} checks on a single component, either one
+ * embedded in a flow or a shared component. Component nodes inside it can only
+ * be checked against `sharedComponentIds`; local references are skipped, since
+ * the flow's components aren't known here.
+ */
+export function validateFlowComponent(
+  component: Pick<FlowComponent, "name" | "nodes" | "start_node_id" | "tools">,
+  options: FlowGraphValidationOptions = {},
+): FlowGraphIssue[] {
+  return validateScope({
+    nodes: component.nodes ?? [],
+    startNodeId: component.start_node_id,
+    toolIds: toolIdSet(component.tools),
+    localComponentIds: undefined,
+    sharedComponentIds: options.sharedComponentIds
+      ? new Set(options.sharedComponentIds)
+      : undefined,
+    component: undefined,
+    label: component.name ? `Component "${component.name}"` : "Component",
+  })
+}
@@ -0,0 +1,351 @@
+import type { z } from "zod"
+import type {
+  ConversationFlowResponseSchema,
+  FlowEdgeSchema,
+  FlowNodeSchema,
+} from "./flow"
+import { evaluateTransitionCondition } from "./flow-conditions"
+import { getNodeEdges } from "./flow-graph"
+import { isKnownLlmTool } from "./llm"
+import type { ToolMockSchema } from "./test-case"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type ConversationFlow = z.output<typeof ConversationFlowResponseSchema>
+type FlowNode = z.output<typeof FlowNodeSchema>
+type FlowEdge = z.output<typeof FlowEdgeSchema>
+type ToolMock = z.input<typeof ToolMockSchema>
+
+/** What a prompt edge chooser is asked to decide. */
+export interface PromptEdgeChoice {
+  node: FlowNode
+  /** The node's edges with a `prompt` condition, in order. */
+  edges: FlowEdge[]
+  /** Dynamic variables at this point in the simulation. */
+  variables: Readonly<Record<string, string>>
+}
+
+/**
+ * Picks which prompt edge the model would take, or undefined if none applies
+ * (the node's else edge is taken if it has one; otherwise the simulation stops,
+ * as the conversation would stay in the node).
+ */
+export type PromptEdgeChooser = (
+  choice: PromptEdgeChoice,
+) => FlowEdge | undefined | Promise<FlowEdge | undefined>
+
+export interface SimulateFlowOptions {
+  /**
+   * Per-conversation dynamic variables, applied over
+   * `default_dynamic_variables`.
+   */
+  variables?: Record<string, string>
+  /** Resolves prompt edges. See {@link scriptedChoices} for a fixed script. */
+  choosePromptEdge: PromptEdgeChooser
+  /**
+   * Tool responses for function and MCP nodes, in the test case `tool_mocks`
+   * format.
+   */
+  toolMocks?: readonly ToolMock[]
+  /**
+   * Values for `extract_dynamic_variables` nodes, which the model would pull
+   * from the conversation. Receives the node; the result is merged into the
+   * variables.
+   */
+  extractVariables?: (
+    node: Extract<FlowNode, { type: "extract_dynamic_variables" }>,
+  ) => Record<string, string> | Promise<Record<string, string>>
+  /** Stops runaway loops. Defaults to 100 nodes. */
+  maxSteps?: number
+}
+
+/** A function or MCP node's mocked tool call. */
+export interface SimulatedToolCall {
+  toolName: string
+  /** Whether a mock matched. Without one, no variables are set. */
+  mocked: boolean
+  output: string | undefined
+  /** The mock's `result`; a mock without it counts as successful. */
+  successful: boolean
+  /** Variables set from the output via `response_variables`. */
+  variables: Record<string, string>
+}
+
+/** One node visited during a simulation. */
+export interface SimulationStep {
+  nodeId: string
+  nodeName: string
+  nodeType: FlowNode["type"]
+  /** The edge taken out of the node. Undefined for the last step. */
+  edge: FlowEdge | undefined
+  /** How the edge was chosen. */
+  via: "equation" | "prompt" | "always" | "else" | undefined
+  toolCall: SimulatedToolCall | undefined
+}
+
+export interface FlowSimulation {
+  path: SimulationStep[]
+  /** Dynamic variables when the simulation stopped. */
+  variables: Record<string, string>
+  /**
+   * Why the simulation stopped: an end node, a call transfer or agent swap, no
+   * edge to take, an edge to a node that doesn't exist, or `maxSteps`.
+   */
+  outcome: "ended" | "transferred" | "stuck" | "missing_node" | "max_steps"
+}
+
+// ---------------------------------------------------------------------------
+// Tool mocks
+// ---------------------------------------------------------------------------
+
+/** Reads a `response_variables` path (`$.data.items[0].id`) from a value. */
+function readPath(value: unknown, path: string) {
+  const keys = path
+    .replace(/^\$\.?/, "")
+    .split(/\.|\[(\d+)\]/)
+    .filter((key) => key !== undefined && key !== "")
+  let current = value
+  for (const key of keys) {
+    if (current == null || typeof current !== "object") return undefined
+    current = (current as Record<string, unknown>)[key]
+  }
+  return current
+}
+
+/**
+ * The mock for a tool. `partial_match` args can't be checked against
+ * model-generated arguments offline, so they're matched against dynamic
+ * variables of the same name instead; `any` mocks match otherwise.
+ */
+function findMock(
+  mocks: readonly ToolMock[],
+  toolName: string,
+  variables: Readonly<Record<string, string>>,
+) {
+  const candidates = mocks.filter((m) => m.tool_name === toolName)
+  return (
+    candidates.find(
+      ({ input_match_rule: rule }) =>
+        rule.type === "partial_match" &&
+        Object.entries(rule.args).every(
+          ([key, value]) => variables[key] === String(value),
+        ),
+    ) ?? candidates.find((m) => m.input_match_rule.type === "any")
+  )
+}
+
+function callTool(
+  responseVariables: Record<string, string> | undefined,
+  toolName: string,
+  mocks: readonly ToolMock[],
+  variables: Readonly<Record<string, string>>,
+): SimulatedToolCall {
+  const mock = findMock(mocks, toolName, variables)
+  if (!mock) {
+    return {
+      toolName,
+      mocked: false,
+      output: undefined,
+      successful: false,
+      variables: {},
+    }
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(mock.output)
+  } catch {
+    parsed = undefined
+  }
+  const set: Record<string, string> = {}
+  for (const [name, path] of Object.entries(responseVariables ?? {})) {
+    const value = readPath(parsed, path)
+    if (value === undefined) continue
+    set[name] = typeof value === "string" ? value : JSON.stringify(value)
+  }
+  return {
+    toolName,
+    mocked: true,
+    output: mock.output,
+    successful: mock.result ?? true,
+    variables: set,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Simulation
+// ---------------------------------------------------------------------------
+
+/**
+ * Walks a conversation flow offline from `start_node_id`, without placing a
+ * call. At each node, equation edges are evaluated against the dynamic
+ * variables (in order, before any prompt edge, as Retell does); otherwise an
+ * always or skip-response edge is taken; otherwise `choosePromptEdge` picks a
+ * prompt edge; otherwise the else edge. Function and MCP nodes run the matching
+ * tool mock and set `response_variables` from its output before their edges are
+ * evaluated. Component nodes are treated as a single step, and global nodes are
+ * never entered.
+ *
+ * ```ts
+ * const { path, variables } = await simulateFlow(flow, {
+ *   variables: { customer_id: "c_1" },
+ *   choosePromptEdge: scriptedChoices(["Wants to book", "Confirmed"]),
+ *   toolMocks: testCase.tool_mocks,
+ * })
+ * ```
+ */
+export async function simulateFlow(
+  flow: Pick<
+    ConversationFlow,
+    | "nodes"
+    | "components"
+    | "start_node_id"
+    | "tools"
+    | "default_dynamic_variables"
+  >,
+  {
+    variables: initialVariables,
+    choosePromptEdge,
+    toolMocks = [],
+    extractVariables,
+    maxSteps = 100,
+  }: SimulateFlowOptions,
+): Promise<FlowSimulation> {
+  const nodes = [
+    ...(flow.nodes ?? []),
+    ...(flow.components ?? []).flatMap((c) => c.nodes ?? []),
+  ]
+  const nodeById = new Map(nodes.map((n) => [n.id, n]))
+  const tools = [
+    ...(flow.tools ?? []),
+    ...(flow.components ?? []).flatMap((c) => c.tools ?? []),
+  ]
+  const variables: Record<string, string> = {
+    ...flow.default_dynamic_variables,
+    ...initialVariables,
+  }
+  const path: SimulationStep[] = []
+  const finish = (outcome: FlowSimulation["outcome"]): FlowSimulation => ({
+    path,
+    variables,
+    outcome,
+  })
+
+  let nodeId = flow.start_node_id
+  while (path.length < maxSteps) {
+    const node = nodeId ? nodeById.get(nodeId) : undefined
+    if (!node) return finish("missing_node")
+
+    const step: SimulationStep = {
+      nodeId: node.id,
+      nodeName: node.name,
+      nodeType: node.type,
+      edge: undefined,
+      via: undefined,
+      toolCall: undefined,
+    }
+    path.push(step)
+
+    if (node.type === "end") return finish("ended")
+    if (node.type === "transfer_call" || node.type === "agent_swap") {
+      return finish("transferred")
+    }
+
+    if (node.type === "function") {
+      const tool = tools.find((t) => t.tool_id === node.tool_id)
+      step.toolCall = callTool(
+        tool &&
+          isKnownLlmTool(tool) &&
+          (tool.type === "custom" || tool.type === "mcp")
+          ? tool.response_variables
+          : undefined,
+        tool?.name ?? node.tool_id,
+        toolMocks,
+        variables,
+      )
+      Object.assign(variables, step.toolCall.variables)
+    } else if (node.type === "mcp") {
+      step.toolCall = callTool(
+        node.response_variables,
+        node.mcp_tool_name,
+        toolMocks,
+        variables,
+      )
+      Object.assign(variables, step.toolCall.variables)
+    } else if (node.type === "extract_dynamic_variables" && extractVariables) {
+      Object.assign(variables, await extractVariables(node))
+    }
+
+    const { always_edge, skip_response_edge, else_edge } = node as {
+      always_edge?: FlowEdge
+      skip_response_edge?: FlowEdge
+      else_edge?: FlowEdge
+    }
+    const special = new Set([always_edge, skip_response_edge, else_edge])
+    const edges = getNodeEdges(node).filter((e) => !special.has(e))
+
+    const taken = (edge: FlowEdge, via: NonNullable<SimulationStep["via"]>) => {
+      step.edge = edge
+      step.via = via
+      return edge.destination_node_id
+    }
+
+    const equationEdge = edges.find(
+      (e) =>
+        e.transition_condition?.type === "equation" &&
+        evaluateTransitionCondition(e.transition_condition, variables),
+    )
+    const promptEdges = edges.filter(
+      (e) => e.transition_condition?.type !== "equation",
+    )
+    const fallback = always_edge ?? skip_response_edge
+    if (equationEdge) {
+      nodeId = taken(equationEdge, "equation")
+    } else if (fallback) {
+      nodeId = taken(fallback, "always")
+    } else {
+      const chosen =
+        promptEdges.length > 0
+          ? await choosePromptEdge({
+              node,
+              edges: promptEdges,
+              variables: { ...variables },
+            })
+          : undefined
+      if (chosen) nodeId = taken(chosen, "prompt")
+      else if (else_edge) nodeId = taken(else_edge, "else")
+      else return finish("stuck")
+    }
+  }
+  return finish("max_steps")
+}
+
+/**
+ * A {@link PromptEdgeChooser} that follows a fixed script, one entry per prompt
+ * decision. Each entry matches an edge by id, destination node id, or condition
+ * prompt (case-insensitive), and `"else"` declines every prompt edge. When the
+ * script runs out, no edge is chosen.
+ */
+export function scriptedChoices(choices: readonly string[]): PromptEdgeChooser {
+  let next = 0
+  return ({ node, edges }) => {
+    const choice = choices[next++]
+    if (choice === undefined || choice.toLowerCase() === "else")
+      return undefined
+    const wanted = choice.toLowerCase()
+    const edge = edges.find(
+      (e) =>
+        e.id?.toLowerCase() === wanted ||
+        e.destination_node_id?.toLowerCase() === wanted ||
+        e.transition_condition?.prompt?.trim().toLowerCase() === wanted,
+    )
+    if (!edge) {
+      throw new Error(
+        `Scripted choice "${choice}" matches no prompt edge of node "${node.name}"`,
+      )
+    }
+    return edge
+  }
+}
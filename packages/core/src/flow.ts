@@ -9,6 +9,7 @@ import {
   StartSpeakerSchema,
 } from "./enums"
 import {
+  ExtractedVariableSchema,
   LlmToolSchema,
   TransferDestinationSchema,
   TransferOptionSchema,
@@ -172,39 +173,89 @@ const ComponentNodeSchema = z.object({
   global_node_setting: GlobalNodeSettingSchema.optional(),
 })
 
+// The node types below are newer and less settled than the ones above, so they
+// stay loose: fields Retell adds are kept rather than stripped on pull.
+
 const PressDigitNodeSchema = z.looseObject({
   ...baseNodeFields,
   type: z.literal("press_digit"),
+  /** Which digits to press, e.g. to get through an IVR menu. */
+  instruction: InstructionSchema,
+  /** Pause before pressing, so the IVR finishes speaking. */
+  delay_ms: z.number().optional(),
+  edges: z.array(FlowEdgeSchema).optional(),
+  global_node_setting: GlobalNodeSettingSchema.optional(),
 })
 
 const SmsNodeSchema = z.looseObject({
   ...baseNodeFields,
   type: z.literal("sms"),
+  /** The message body: static text, or a prompt the LLM writes it from. */
+  instruction: InstructionSchema,
+  success_edge: FlowEdgeSchema.optional(),
+  failed_edge: FlowEdgeSchema.optional(),
+  global_node_setting: GlobalNodeSettingSchema.optional(),
 })
 
 const ExtractDynamicVariablesNodeSchema = z.looseObject({
   ...baseNodeFields,
   type: z.literal("extract_dynamic_variables"),
+  variables: z.array(ExtractedVariableSchema),
+  edges: z.array(FlowEdgeSchema).optional(),
+  else_edge: FlowEdgeSchema.optional(),
+  global_node_setting: GlobalNodeSettingSchema.optional(),
 })
 
 const AgentSwapNodeSchema = z.looseObject({
   ...baseNodeFields,
   type: z.literal("agent_swap"),
+  instruction: InstructionSchema.optional(),
+  agent_id: z.string(),
+  agent_version: z.number().optional(),
+  post_call_analysis_setting: z
+    .enum(["both_agents", "only_destination_agent"])
+    .optional(),
+  webhook_setting: z
+    .enum(["both_agents", "only_destination_agent", "only_source_agent"])
+    .optional(),
+  speak_during_execution: z.boolean().optional(),
+  /** Taken if the swap fails. */
+  edge: FlowEdgeSchema.optional(),
+  global_node_setting: GlobalNodeSettingSchema.optional(),
 })
 
 const McpNodeSchema = z.looseObject({
   ...baseNodeFields,
   type: z.literal("mcp"),
+  instruction: InstructionSchema.optional(),
+  /** ID of the server in the flow's `mcps`. */
+  mcp_id: z.string(),
+  mcp_tool_name: z.string(),
+  /** Dynamic variable name -> JSON path into the tool result. */
+  response_variables: z.record(z.string(), z.string()).optional(),
+  speak_during_execution: z.boolean().optional(),
+  wait_for_result: z.boolean().optional(),
+  edges: z.array(FlowEdgeSchema).optional(),
+  else_edge: FlowEdgeSchema.optional(),
+  global_node_setting: GlobalNodeSettingSchema.optional(),
 })
 
 const BridgeTransferNodeSchema = z.looseObject({
   ...baseNodeFields,
   type: z.literal("bridge_transfer"),
+  /** What the transfer agent says before connecting the caller. */
+  instruction: InstructionSchema.optional(),
+  speak_during_execution: z.boolean().optional(),
+  global_node_setting: GlobalNodeSettingSchema.optional(),
 })
 
 const CancelTransferNodeSchema = z.looseObject({
   ...baseNodeFields,
   type: z.literal("cancel_transfer"),
+  /** What the transfer agent says before handing back to the caller. */
+  instruction: InstructionSchema.optional(),
+  speak_during_execution: z.boolean().optional(),
+  global_node_setting: GlobalNodeSettingSchema.optional(),
 })
 
 /** Discriminated union of all conversation flow node types. */
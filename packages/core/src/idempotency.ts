@@ -0,0 +1,144 @@
+import type { SqliteDatabaseLike } from "./sqlite"
+
+// ---------------------------------------------------------------------------
+// Store interface
+// ---------------------------------------------------------------------------
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * Pluggable store that remembers which webhook deliveries have been processed.
+ * Implementations must make `claim` atomic so concurrent retries can't both
+ * win.
+ */
+export interface IdempotencyStore {
+  /**
+   * Records `key` as processed. Returns `true` if this call claimed it, or
+   * `false` if it was already claimed (i.e. the delivery is a duplicate).
+   */
+  claim(key: string): MaybePromise<boolean>
+  /** Forgets `key` so a retry is processed again (e.g. after a failure). */
+  release(key: string): MaybePromise<void>
+}
+
+/** Default time a claimed key is remembered: 24 hours. */
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Builds the idempotency key for a webhook payload: `<event>:<call_id>` or
+ * `<event>:<chat_id>`. A call can transfer more than once, so `transfer_*` keys
+ * add the attempt's `transfer_start_timestamp`. Returns undefined for events
+ * that legitimately repeat for the same call (`transcript_updated`, transfers
+ * without a start time) or that carry no id.
+ */
+export function webhookIdempotencyKey(payload: {
+  event: string
+  call?: unknown
+  chat?: unknown
+  transfer_start_timestamp?: unknown
+}) {
+  if (payload.event === "transcript_updated") return undefined
+  const id =
+    (payload.call as { call_id?: unknown } | undefined)?.call_id ??
+    (payload.chat as { chat_id?: unknown } | undefined)?.chat_id
+  if (typeof id !== "string") return undefined
+  if (!payload.event.startsWith("transfer_")) return `${payload.event}:${id}`
+
+  const started = payload.transfer_start_timestamp
+  const attempt =
+    started instanceof Date
+      ? started.getTime()
+      : typeof started === "number"
+        ? started
+        : undefined
+  return attempt != null && Number.isFinite(attempt)
+    ? `${payload.event}:${id}:${attempt}`
+    : undefined
+}
+
+// ---------------------------------------------------------------------------
+// In-memory store
+// ---------------------------------------------------------------------------
+
+/**
+ * In-memory idempotency store. Suitable for a single process; keys are lost on
+ * restart. Expired keys are pruned lazily on `claim`.
+ */
+export function createMemoryIdempotencyStore({
+  ttlMs = DEFAULT_IDEMPOTENCY_TTL_MS,
+  now = Date.now,
+}: {
+  /** How long a claimed key is remembered. */
+  ttlMs?: number
+  /** Clock override for testing. */
+  now?: () => number
+} = {}): IdempotencyStore {
+  const claimedAt = new Map<string, number>()
+
+  return {
+    claim(key) {
+      const time = now()
+      for (const [k, t] of claimedAt) {
+        if (time - t >= ttlMs) claimedAt.delete(k)
+      }
+      if (claimedAt.has(key)) return false
+      claimedAt.set(key, time)
+      return true
+    },
+    release(key) {
+      claimedAt.delete(key)
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SQLite store
+// ---------------------------------------------------------------------------
+
+/**
+ * SQLite-backed idempotency store for `bun:sqlite`. Creates the table if it
+ * doesn't exist; `INSERT OR IGNORE` makes `claim` atomic across processes
+ * sharing the database file.
+ *
+ * ```ts
+ * import { Database } from "bun:sqlite"
+ * const store = createSqliteIdempotencyStore(new Database("webhooks.db"))
+ * ```
+ */
+export function createSqliteIdempotencyStore(
+  db: SqliteDatabaseLike,
+  {
+    table = "retell_webhook_idempotency",
+    ttlMs = DEFAULT_IDEMPOTENCY_TTL_MS,
+    now = Date.now,
+  }: {
+    /** Table name. Defaults to `retell_webhook_idempotency`. */
+    table?: string
+    /** How long a claimed key is remembered. */
+    ttlMs?: number
+    /** Clock override for testing. */
+    now?: () => number
+  } = {},
+): IdempotencyStore {
+  if (!/^\w+$/.test(table)) throw new Error(`Invalid table name: ${table}`)
+
+  db.run(
+    `CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, claimed_at INTEGER NOT NULL)`,
+  )
+  const prune = db.query(`DELETE FROM ${table} WHERE claimed_at <= ?`)
+  const insert = db.query(
+    `INSERT OR IGNORE INTO ${table} (key, claimed_at) VALUES (?, ?)`,
+  )
+  const remove = db.query(`DELETE FROM ${table} WHERE key = ?`)
+
+  return {
+    claim(key) {
+      const time = now()
+      prune.run(time - ttlMs)
+      return insert.run(key, time).changes > 0
+    },
+    release(key) {
+      remove.run(key)
+    },
+  }
+}
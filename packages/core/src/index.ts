@@ -62,6 +62,62 @@ export {
   ChatToolCallResultSchema,
 } from "./chat-messages"
 
+// Tool call pairing
+export {
+  type PairedToolCall,
+  type SurroundingUtterance,
+  type ToolArgSchemas,
+  type ToolArgsResult,
+  pairToolCalls,
+} from "./tool-calls"
+
+// Node path reconstruction
+export { type NodeVisit, reconstructNodePath } from "./node-path"
+
+// Turn-taking metrics
+export {
+  type Overlap,
+  type RoleTalkMetrics,
+  type SilenceGap,
+  type TurnTakingMetrics,
+  type TurnTakingOptions,
+  computeTurnTakingMetrics,
+} from "./turn-taking"
+
+// Subtitle export
+export {
+  type SubtitleCue,
+  type SubtitleFormat,
+  type SubtitleOptions,
+  buildSubtitleCues,
+  exportSubtitleTracks,
+  exportSubtitles,
+  formatSrt,
+  formatWebVtt,
+} from "./subtitles"
+
+// Cost aggregation
+export {
+  type CostCallLike,
+  type CostChatLike,
+  type CostGroup,
+  type CostReport,
+  aggregateCosts,
+  formatCostReport,
+} from "./cost-report"
+
+// Latency aggregation
+export {
+  type HistogramBucket,
+  type LatencyAggregationOptions,
+  type LatencyCallLike,
+  type LatencyGroup,
+  type LatencyMetricName,
+  type LatencyStats,
+  aggregateLatency,
+  computeLatencyStats,
+} from "./latency-report"
+
 // Phone number validation
 export { e164PhoneSchema as E164PhoneSchema, e164OrNullSchema } from "./phone"
 
@@ -72,7 +128,13 @@ export {
 } from "./phone-number"
 
 // Analysis
-export { createCallAnalysisSchema, createChatAnalysisSchema } from "./analysis"
+export {
+  analysisSchemaFromFields,
+  callAnalysisDataFromAgent,
+  chatAnalysisDataFromAgent,
+  createCallAnalysisSchema,
+  createChatAnalysisSchema,
+} from "./analysis"
 
 // Call schemas + factory
 export {
@@ -93,6 +155,89 @@ export {
 // Webhook schemas + factory
 export { WebhookSchemas, createWebhookSchemas } from "./webhook"
 
+// Webhook signature verification
+export {
+  DEFAULT_SIGNATURE_TOLERANCE_MS,
+  type VerifyWebhookSignatureOptions,
+  WebhookSignatureError,
+  computeWebhookSignature,
+  parseSignatureHeader,
+  parseVerifiedWebhook,
+  verifyWebhookSignature,
+} from "./webhook-signature"
+
+// Webhook dispatcher
+export {
+  type WebhookEventHandler,
+  type WebhookEventHandlers,
+  type WebhookEventName,
+  type WebhookHandlerOptions,
+  type WebhookPayload,
+  type WebhookPayloadFor,
+  type WebhookSchemasLike,
+  createWebhookHandler,
+} from "./webhook-handler"
+
+// Custom tool server
+export {
+  DEFAULT_TOOL_TIMEOUT_MS,
+  type ToolCallContext,
+  type ToolDefinition,
+  type ToolDefinitions,
+  type ToolResult,
+  type ToolServerOptions,
+  createToolServer,
+} from "./tool-server"
+
+// Webhook idempotency
+export {
+  DEFAULT_IDEMPOTENCY_TTL_MS,
+  type IdempotencyStore,
+  createMemoryIdempotencyStore,
+  createSqliteIdempotencyStore,
+  webhookIdempotencyKey,
+} from "./idempotency"
+
+// SQLite helpers
+export {
+  type SqlValue,
+  type SqliteDatabaseLike,
+  type SqliteStatementLike,
+} from "./sqlite"
+
+// Local SQLite warehouse
+export {
+  type CallRecord,
+  type ChatRecord,
+  type ConversationFilter,
+  type LatencyMetricRecord,
+  type NodeTransitionRecord,
+  type ProductCostRecord,
+  type ToolCallRecord,
+  type TranscriptEntryRecord,
+  type Warehouse,
+  createWarehouse,
+} from "./warehouse"
+
+// Webhook framework adapters
+export {
+  createFetchWebhookHandler,
+  createHonoWebhookHandler,
+  createNodeWebhookHandler,
+} from "./webhook-adapters"
+
+// Call/chat lifecycle reducers
+export {
+  type CallLifecycleEvent,
+  type CallSchemasLike,
+  type CallSnapshot,
+  type ChatLifecycleEvent,
+  type ChatSchemasLike,
+  type ChatSnapshot,
+  LifecycleReducers,
+  createLifecycleReducers,
+} from "./lifecycle"
+
 // Agent config schemas
 export {
   ChatAgentResponseSchema,
@@ -111,14 +256,27 @@ export {
 
 // LLM config schemas
 export {
+  ExtractedVariableSchema,
+  KnownLlmToolSchema,
   LlmResponseSchema,
   LlmStateEdgeSchema,
   LlmStateSchema,
   LlmToolSchema,
+  SmsContentSchema,
   TransferDestinationSchema,
   TransferOptionSchema,
+  isKnownLlmTool,
 } from "./llm"
 
+// Multi-prompt LLM state machines
+export {
+  type LlmStateIssue,
+  type LlmStateIssueType,
+  type LlmStateMachine,
+  renderStatesMermaid,
+  validateLlmStates,
+} from "./llm-states"
+
 // Conversation flow config schemas
 export {
   ConversationFlowComponentResponseSchema,
@@ -130,6 +288,46 @@ export {
   FlowTransitionConditionSchema,
 } from "./flow"
 
+// Conversation flow graph helpers
+export {
+  type FlowGraphIssue,
+  type FlowGraphIssueType,
+  type FlowGraphValidationOptions,
+  getNodeEdges,
+  validateFlowComponent,
+  validateFlowGraph,
+} from "./flow-graph"
+
+// Conversation flow transition conditions
+export {
+  type PickEdgeOptions,
+  evaluateEquation,
+  evaluateTransitionCondition,
+  pickBranchEdge,
+} from "./flow-conditions"
+
+// Offline conversation flow simulation
+export {
+  type FlowSimulation,
+  type PromptEdgeChoice,
+  type PromptEdgeChooser,
+  type SimulateFlowOptions,
+  type SimulatedToolCall,
+  type SimulationStep,
+  scriptedChoices,
+  simulateFlow,
+} from "./flow-simulator"
+
+// Conversation flow funnel analysis
+export {
+  type FlowFunnelReport,
+  type FunnelCallLike,
+  type FunnelExit,
+  type NodeFunnel,
+  analyzeFlowFunnel,
+  renderFunnelMermaid,
+} from "./flow-funnel"
+
 // Test case schemas
 export {
   InputMatchRuleSchema,
@@ -138,8 +336,23 @@ export {
   ToolMockSchema,
 } from "./test-case"
 
+// Dynamic variables
+export {
+  type DynamicVariableConfig,
+  type DynamicVariableInfo,
+  type DynamicVariableIssue,
+  type DynamicVariableReport,
+  RETELL_SYSTEM_VARIABLES,
+  type RenderPromptOptions,
+  type RenderedPrompt,
+  analyzeDynamicVariables,
+  extractDynamicVariables,
+  isSystemVariable,
+  renderPrompt,
+} from "./dynamic-variables"
+
 // Pagination utility
 export { retellPagination } from "./pagination"
 
 // General utilities
-export { pluralize, resolveFilePlaceholders, toSnakeCase } from "./utils"
+export { pluralize, resolveFilePlaceholders, toCsv, toSnakeCase } from "./utils"
@@ -0,0 +1,170 @@
+import type { z } from "zod"
+import { CallLatencySchema } from "./latency"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type CallLatency = z.output<typeof CallLatencySchema>
+
+/** Sub-metric of `CallLatencySchema` (`e2e`, `llm`, `tts`, ...). */
+export type LatencyMetricName = keyof CallLatency
+
+/** The call fields latency aggregation reads. Any ended call satisfies this. */
+export interface LatencyCallLike {
+  agent_id?: string
+  agent_version?: number
+  latency?: CallLatency
+}
+
+/** A fixed-width histogram bucket covering `[startMs, endMs)`. */
+export interface HistogramBucket {
+  startMs: number
+  endMs: number
+  count: number
+}
+
+/** Distribution of one latency sub-metric, recomputed from raw values. */
+export interface LatencyStats {
+  num: number
+  min: number
+  max: number
+  mean: number
+  p50: number
+  p90: number
+  p95: number
+  p99: number
+  /** Ascending; buckets without values are left out. */
+  histogram: HistogramBucket[]
+}
+
+/** Latency distributions for one group of calls. */
+export interface LatencyGroup {
+  key: string
+  calls: number
+  /** Only sub-metrics with at least one value are present. */
+  metrics: Partial<Record<LatencyMetricName, LatencyStats>>
+}
+
+export interface LatencyAggregationOptions {
+  /**
+   * How to group calls. `agentVersion` keys groups `<agent_id>@v<version>`.
+   * Calls don't record their LLM, so to group by model pass a function that
+   * resolves it (e.g. from pulled agent configs keyed by version). Calls for
+   * which the function returns undefined are skipped.
+   */
+  groupBy?: "agentVersion" | ((call: LatencyCallLike) => string | undefined)
+  /** Histogram bucket width, greater than 0. Defaults to 100ms. */
+  bucketMs?: number
+}
+
+// ---------------------------------------------------------------------------
+// Statistics
+// ---------------------------------------------------------------------------
+
+const METRICS = Object.keys(CallLatencySchema.shape) as LatencyMetricName[]
+
+/** Nearest-rank percentile of ascending `sorted` values. */
+function percentile(sorted: readonly number[], p: number) {
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.max(0, rank - 1)]!
+}
+
+/** Non-empty buckets only, so one outlier doesn't allocate a bucket per gap. */
+function histogram(sorted: readonly number[], bucketMs: number) {
+  const buckets: HistogramBucket[] = []
+  for (const value of sorted) {
+    const startMs = Math.floor(value / bucketMs) * bucketMs
+    const last = buckets.at(-1)
+    if (last?.startMs === startMs) last.count++
+    else buckets.push({ startMs, endMs: startMs + bucketMs, count: 1 })
+  }
+  return buckets
+}
+
+function assertBucketMs(bucketMs: number) {
+  if (!Number.isFinite(bucketMs) || bucketMs <= 0) {
+    throw new Error(`bucketMs must be a positive number, got ${bucketMs}`)
+  }
+}
+
+/**
+ * Computes latency statistics from raw values. Percentiles use the nearest-rank
+ * method, so every percentile is an observed value. Returns undefined for an
+ * empty list.
+ */
+export function computeLatencyStats(
+  values: readonly number[],
+  { bucketMs = 100 }: { bucketMs?: number } = {},
+): LatencyStats | undefined {
+  assertBucketMs(bucketMs)
+  if (values.length === 0) return undefined
+  const sorted = values.toSorted((a, b) => a - b)
+  return {
+    num: sorted.length,
+    min: sorted[0]!,
+    max: sorted.at(-1)!,
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    histogram: histogram(sorted, bucketMs),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+/**
+ * Merges the raw `values` of each latency sub-metric across calls and
+ * recomputes true percentiles and histograms per group. Per-call p50/p90/etc.
+ * can't be averaged; this pools the underlying samples instead.
+ *
+ * ```ts
+ * const groups = aggregateLatency(calls)
+ * for (const { key, metrics } of groups) {
+ *   console.log(key, metrics.e2e?.p50, metrics.e2e?.p95)
+ * }
+ * ```
+ */
+export function aggregateLatency(
+  calls: Iterable<LatencyCallLike>,
+  { groupBy = "agentVersion", bucketMs = 100 }: LatencyAggregationOptions = {},
+): LatencyGroup[] {
+  assertBucketMs(bucketMs)
+  const keyOf =
+    groupBy === "agentVersion"
+      ? (call: LatencyCallLike) =>
+          `${call.agent_id ?? "unknown"}@v${call.agent_version ?? "?"}`
+      : groupBy
+
+  const groups = new Map<
+    string,
+    { calls: number; values: Map<LatencyMetricName, number[]> }
+  >()
+  for (const call of calls) {
+    const key = keyOf(call)
+    if (key == null) continue
+    const group = groups.get(key) ?? { calls: 0, values: new Map() }
+    groups.set(key, group)
+    group.calls++
+
+    for (const metric of METRICS) {
+      const values = call.latency?.[metric]?.values
+      if (!values?.length) continue
+      const pooled = group.values.get(metric) ?? []
+      group.values.set(metric, pooled)
+      pooled.push(...values)
+    }
+  }
+
+  return [...groups].map(([key, group]) => {
+    const metrics: LatencyGroup["metrics"] = {}
+    for (const [metric, values] of group.values) {
+      metrics[metric] = computeLatencyStats(values, { bucketMs })
+    }
+    return { key, calls: group.calls, metrics }
+  })
+}
@@ -0,0 +1,216 @@
+import type { z } from "zod"
+import { CallSchemas } from "./call"
+import { ChatSchemas } from "./chat"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Anything shaped like the return value of `createCallSchemas()`. */
+export type CallSchemasLike = {
+  base: z.ZodType
+  ended: z.ZodType
+  analyzed: z.ZodType
+}
+
+/** Anything shaped like the return value of `createChatSchemas()`. */
+export type ChatSchemasLike = {
+  ended: z.ZodType
+  analyzed: z.ZodType
+}
+
+/** Webhook events that carry mid-call data (base call schema). */
+type MidCallEvent =
+  | "call_started"
+  | "transcript_updated"
+  | "transfer_started"
+  | "transfer_bridged"
+  | "transfer_cancelled"
+  | "transfer_ended"
+
+/** Call webhook events accepted by the call reducer. */
+export type CallLifecycleEvent<TCall extends CallSchemasLike> =
+  | { event: MidCallEvent; call: z.output<TCall["base"]> }
+  | { event: "call_ended"; call: z.output<TCall["ended"]> }
+  | { event: "call_analyzed"; call: z.output<TCall["analyzed"]> }
+
+/** Chat webhook events accepted by the chat reducer. */
+export type ChatLifecycleEvent<TChat extends ChatSchemasLike> =
+  | { event: "chat_ended"; chat: z.output<TChat["ended"]> }
+  | { event: "chat_analyzed"; chat: z.output<TChat["analyzed"]> }
+
+/**
+ * Merged view of a call across all webhook events received so far.
+ * Discriminated on `stage`, so narrowing gives the matching call schema type.
+ */
+export type CallSnapshot<TCall extends CallSchemasLike> =
+  | { stage: "started"; lastEvent: MidCallEvent; call: z.output<TCall["base"]> }
+  | { stage: "ended"; lastEvent: "call_ended"; call: z.output<TCall["ended"]> }
+  | {
+      stage: "analyzed"
+      lastEvent: "call_analyzed"
+      call: z.output<TCall["analyzed"]>
+    }
+
+/** Merged view of a chat across all webhook events received so far. */
+export type ChatSnapshot<TChat extends ChatSchemasLike> =
+  | { stage: "ended"; lastEvent: "chat_ended"; chat: z.output<TChat["ended"]> }
+  | {
+      stage: "analyzed"
+      lastEvent: "chat_analyzed"
+      chat: z.output<TChat["analyzed"]>
+    }
+
+// ---------------------------------------------------------------------------
+// Ordering
+// ---------------------------------------------------------------------------
+
+/**
+ * Relative freshness of each event. Mid-call updates rank above `call_started`
+ * so a late-arriving start can't roll back transcript progress.
+ */
+const CALL_EVENT_RANK = {
+  call_started: 0,
+  transcript_updated: 1,
+  transfer_started: 1,
+  transfer_bridged: 1,
+  transfer_cancelled: 1,
+  transfer_ended: 1,
+  call_ended: 2,
+  call_analyzed: 3,
+} as const satisfies Record<
+  CallLifecycleEvent<CallSchemasLike>["event"],
+  number
+>
+
+const CHAT_EVENT_RANK = {
+  chat_ended: 0,
+  chat_analyzed: 1,
+} as const satisfies Record<
+  ChatLifecycleEvent<ChatSchemasLike>["event"],
+  number
+>
+
+function callStage(event: CallLifecycleEvent<CallSchemasLike>["event"]) {
+  if (event === "call_analyzed") return "analyzed"
+  if (event === "call_ended") return "ended"
+  return "started"
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates reducers that fold webhook events for a single call or chat into one
+ * typed snapshot. Pass the same objects you pass to `createWebhookSchemas()` so
+ * snapshot types match your custom metadata and analysis types.
+ *
+ * Events may arrive out of order or more than once:
+ *
+ * - An event from an earlier stage never overwrites a later one (a retried
+ *   `call_ended` after `call_analyzed` is ignored).
+ * - Events from the same or a later stage are shallow-merged over the current
+ *   snapshot, so duplicates are harmless.
+ *
+ * Reducers are pure — they return a new snapshot (or the same one if the event
+ * was stale) and throw if the event belongs to a different call/chat.
+ *
+ * ```ts
+ * const { reduceCall } = createLifecycleReducers({
+ *   call: myCall,
+ *   chat: myChat,
+ * })
+ * const next = reduceCall(await db.get(event.call.call_id), event)
+ * if (next.stage === "analyzed") next.call.call_analysis
+ * ```
+ */
+export function createLifecycleReducers<
+  TCall extends CallSchemasLike,
+  TChat extends ChatSchemasLike,
+>(_schemas: { call: TCall; chat: TChat }) {
+  function reduceCall(
+    snapshot: CallSnapshot<TCall> | undefined,
+    event: CallLifecycleEvent<TCall>,
+  ): CallSnapshot<TCall> {
+    const call = event.call as { call_id: string }
+    if (!snapshot) {
+      return {
+        stage: callStage(event.event),
+        lastEvent: event.event,
+        call,
+      } as CallSnapshot<TCall>
+    }
+
+    const current = snapshot.call as { call_id: string }
+    if (current.call_id !== call.call_id) {
+      throw new Error(
+        `Cannot reduce event for ${call.call_id} into snapshot for ${current.call_id}`,
+      )
+    }
+
+    if (CALL_EVENT_RANK[event.event] < CALL_EVENT_RANK[snapshot.lastEvent]) {
+      return snapshot
+    }
+
+    return {
+      stage: callStage(event.event),
+      lastEvent: event.event,
+      call: { ...current, ...call },
+    } as CallSnapshot<TCall>
+  }
+
+  function reduceChat(
+    snapshot: ChatSnapshot<TChat> | undefined,
+    event: ChatLifecycleEvent<TChat>,
+  ): ChatSnapshot<TChat> {
+    const chat = event.chat as { chat_id: string }
+    const stage = event.event === "chat_analyzed" ? "analyzed" : "ended"
+    if (!snapshot) {
+      return { stage, lastEvent: event.event, chat } as ChatSnapshot<TChat>
+    }
+
+    const current = snapshot.chat as { chat_id: string }
+    if (current.chat_id !== chat.chat_id) {
+      throw new Error(
+        `Cannot reduce event for ${chat.chat_id} into snapshot for ${current.chat_id}`,
+      )
+    }
+
+    if (CHAT_EVENT_RANK[event.event] < CHAT_EVENT_RANK[snapshot.lastEvent]) {
+      return snapshot
+    }
+
+    return {
+      stage,
+      lastEvent: event.event,
+      chat: { ...current, ...chat },
+    } as ChatSnapshot<TChat>
+  }
+
+  /** Folds a sequence of events for one call. Undefined if the list is empty. */
+  function foldCall(events: Iterable<CallLifecycleEvent<TCall>>) {
+    let snapshot: CallSnapshot<TCall> | undefined
+    for (const event of events) snapshot = reduceCall(snapshot, event)
+    return snapshot
+  }
+
+  /** Folds a sequence of events for one chat. Undefined if the list is empty. */
+  function foldChat(events: Iterable<ChatLifecycleEvent<TChat>>) {
+    let snapshot: ChatSnapshot<TChat> | undefined
+    for (const event of events) snapshot = reduceChat(snapshot, event)
+    return snapshot
+  }
+
+  return { reduceCall, reduceChat, foldCall, foldChat }
+}
+
+// ---------------------------------------------------------------------------
+// Pre-built reducers with default (loose) types
+// ---------------------------------------------------------------------------
+
+/** Pre-built lifecycle reducers for the default call/chat schemas. */
+export const LifecycleReducers = createLifecycleReducers({
+  call: CallSchemas,
+  chat: ChatSchemas,
+})
@@ -0,0 +1,205 @@
+import type { z } from "zod"
+import type { LlmResponseSchema } from "./llm"
+import { mermaidLabel } from "./utils"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type Llm = z.output<typeof LlmResponseSchema>
+
+/** The LLM fields the state-machine helpers read. */
+export type LlmStateMachine = Pick<
+  Llm,
+  "states" | "starting_state" | "general_tools"
+>
+
+export type LlmStateIssueType =
+  | "invalid_starting_state"
+  | "duplicate_state"
+  | "unknown_destination"
+  | "unreachable_state"
+  | "tool_name_collision"
+
+/** A problem in a multi-prompt LLM's state machine. */
+export interface LlmStateIssue {
+  type: LlmStateIssueType
+  /** The state the issue is in. Undefined for LLM-level issues. */
+  state: string | undefined
+  message: string
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Checks a multi-prompt LLM's `states`: `starting_state` must name a state,
+ * state names must be unique, every edge's `destination_state_name` must exist,
+ * every state must be reachable from the starting state, and no tool may share
+ * a name with a `general_tools` entry or another tool in the same state (the
+ * model sees both lists at once). Single-prompt LLMs have no issues.
+ *
+ * ```ts
+ * for (const issue of validateLlmStates(llm)) console.error(issue.message)
+ * ```
+ */
+export function validateLlmStates(llm: LlmStateMachine): LlmStateIssue[] {
+  const states = llm.states ?? []
+  if (states.length === 0) return []
+
+  const issues: LlmStateIssue[] = []
+  const report = (
+    type: LlmStateIssueType,
+    state: string | undefined,
+    message: string,
+  ) => issues.push({ type, state, message })
+
+  const names = new Set<string>()
+  for (const state of states) {
+    if (names.has(state.name)) {
+      report(
+        "duplicate_state",
+        state.name,
+        `State "${state.name}" is defined more than once`,
+      )
+    }
+    names.add(state.name)
+  }
+
+  const start = llm.starting_state
+  if (!start) {
+    report("invalid_starting_state", undefined, "starting_state is not set")
+  } else if (!names.has(start)) {
+    report(
+      "invalid_starting_state",
+      undefined,
+      `starting_state "${start}" is not a state`,
+    )
+  }
+
+  const generalToolNames = new Set(
+    (llm.general_tools ?? []).flatMap((t) => (t.name ? [t.name] : [])),
+  )
+  for (const state of states) {
+    for (const edge of state.edges ?? []) {
+      if (!names.has(edge.destination_state_name)) {
+        report(
+          "unknown_destination",
+          state.name,
+          `State "${state.name}" has an edge to unknown state "${edge.destination_state_name}"`,
+        )
+      }
+    }
+
+    const seen = new Set<string>()
+    for (const tool of state.tools ?? []) {
+      if (!tool.name) continue
+      if (generalToolNames.has(tool.name) || seen.has(tool.name)) {
+        const other = seen.has(tool.name)
+          ? "another tool in the state"
+          : "a general tool"
+        report(
+          "tool_name_collision",
+          state.name,
+          `State "${state.name}" has tool "${tool.name}", which collides with ${other}`,
+        )
+      }
+      seen.add(tool.name)
+    }
+  }
+
+  if (start && names.has(start)) {
+    const reached = reachableStates(states, start)
+    for (const name of names) {
+      if (!reached.has(name)) {
+        report(
+          "unreachable_state",
+          name,
+          `State "${name}" is unreachable from starting state "${start}"`,
+        )
+      }
+    }
+  }
+
+  return issues
+}
+
+function reachableStates(
+  states: NonNullable<LlmStateMachine["states"]>,
+  start: string,
+) {
+  const edgesByState = new Map<string, string[]>()
+  for (const state of states) {
+    edgesByState.set(state.name, [
+      ...(edgesByState.get(state.name) ?? []),
+      ...(state.edges ?? []).map((e) => e.destination_state_name),
+    ])
+  }
+  const reached = new Set<string>()
+  const queue = [start]
+  while (queue.length > 0) {
+    const name = queue.pop()!
+    if (reached.has(name)) continue
+    reached.add(name)
+    queue.push(...(edgesByState.get(name) ?? []))
+  }
+  return reached
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+const MAX_EDGE_LABEL = 60
+
+/**
+ * Renders a multi-prompt LLM's states as a Mermaid flowchart. Edges are
+ * labelled with their (truncated) description, the starting state is marked,
+ * and state tools are listed under the state name. Edges to unknown states
+ * point at a dashed placeholder so they stand out in review.
+ */
+export function renderStatesMermaid(llm: LlmStateMachine) {
+  const states = llm.states ?? []
+  const ids = new Map<string, string>()
+  for (const state of states) {
+    if (!ids.has(state.name)) ids.set(state.name, `s${ids.size}`)
+  }
+
+  const lines = ["flowchart TD"]
+  if (llm.starting_state && ids.has(llm.starting_state)) {
+    lines.push(`  start(("start")) --> ${ids.get(llm.starting_state)}`)
+  }
+  for (const [name, id] of ids) {
+    const tools = states
+      .filter((s) => s.name === name)
+      .flatMap((s) => s.tools ?? [])
+      .flatMap((t) => (t.name ? [t.name] : []))
+    const label =
+      tools.length > 0 ? `${name}<br/>tools: ${tools.join(", ")}` : name
+    lines.push(`  ${id}["${mermaidLabel(label)}"]`)
+  }
+
+  let missing = 0
+  for (const state of states) {
+    for (const edge of state.edges ?? []) {
+      let to = ids.get(edge.destination_state_name)
+      if (!to) {
+        to = `missing${missing++}`
+        lines.push(
+          `  ${to}["${mermaidLabel(`${edge.destination_state_name} (missing)`)}"]`,
+          `  style ${to} stroke-dasharray: 5 5`,
+        )
+      }
+      const description = edge.description?.trim()
+      const text =
+        description && description.length > MAX_EDGE_LABEL
+          ? `${description.slice(0, MAX_EDGE_LABEL - 1)}…`
+          : description
+      const arrow = text ? `-->|"${mermaidLabel(text)}"|` : "-->"
+      lines.push(`  ${ids.get(state.name)} ${arrow} ${to}`)
+    }
+  }
+
+  return lines.join("\n")
+}
@@ -42,49 +42,193 @@ export const TransferOptionSchema = z.object({
   cold_transfer_mode: z.enum(["sip_refer", "sip_invite"]).optional(),
 })
 
+/** SMS body: fixed text, or written by the LLM from a prompt. */
+export const SmsContentSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("predefined"), content: z.string() }),
+  z.object({ type: z.literal("inferred"), prompt: z.string() }),
+])
+
+/** A variable an extraction tool or node pulls from the conversation. */
+export const ExtractedVariableSchema = z.object({
+  type: z.enum(["string", "enum", "boolean", "number"]),
+  name: z.string(),
+  description: z.string(),
+  /** Allowed values, for `enum` variables. */
+  choices: z.array(z.string()).optional(),
+  examples: z.array(z.string()).optional(),
+})
+
 // ---------------------------------------------------------------------------
 // Tools & states
 // ---------------------------------------------------------------------------
 
 /**
- * Schema for an LLM tool. Tools are highly polymorphic (end_call,
- * transfer_call, custom, cal, etc.) so we explicitly declare all known fields
- * and use catchall to preserve any we haven't seen yet.
+ * Fields every tool shares. `name` is required: Retell rejects tools without
+ * one, and it's how tools are referenced (state tool collisions, tool mocks,
+ * `retell codegen`'s `toolArgs` keys).
  */
-export const LlmToolSchema = z.object({
-  // Common
-  type: LlmToolTypeSchema,
-  name: z.string().optional(),
+const baseToolFields = {
+  name: z.string(),
   description: z.string().optional(),
+  /** Set on conversation flow tools, which function nodes refer to by ID. */
   tool_id: z.string().optional(),
+}
+
+/** What the agent says while (and after) a tool runs. */
+const speechFields = {
+  speak_during_execution: z.boolean().optional(),
+  speak_after_execution: z.boolean().optional(),
+  execution_message_description: z.string().optional(),
+}
+
+/** Cal.com integration shared by the availability and booking tools. */
+const calFields = {
+  cal_api_key: z.string(),
+  event_type_id: z.number(),
+  timezone: z.string().optional(),
+}
+
+const EndCallToolSchema = z.looseObject({
+  ...baseToolFields,
+  type: z.literal("end_call"),
+  speak_during_execution: speechFields.speak_during_execution,
+  execution_message_description: speechFields.execution_message_description,
+})
+
+const TransferCallToolSchema = z.looseObject({
+  ...baseToolFields,
+  type: z.literal("transfer_call"),
+  transfer_destination: TransferDestinationSchema,
+  transfer_option: TransferOptionSchema.optional(),
+  custom_sip_headers: z.record(z.string(), z.string()).optional(),
+  speak_during_execution: speechFields.speak_during_execution,
+  execution_message_description: speechFields.execution_message_description,
+})
+
+const CheckAvailabilityCalToolSchema = z.looseObject({
+  ...baseToolFields,
+  type: z.literal("check_availability_cal"),
+  ...calFields,
+})
+
+const BookAppointmentCalToolSchema = z.looseObject({
+  ...baseToolFields,
+  type: z.literal("book_appointment_cal"),
+  ...calFields,
+})
+
+const PressDigitToolSchema = z.looseObject({
+  ...baseToolFields,
+  type: z.literal("press_digit"),
+  /** Pause before pressing, so the IVR finishes speaking. */
+  delay_ms: z.number().optional(),
+})
 
-  // Custom tool HTTP config
-  url: z.string().optional(),
+const CustomToolSchema = z.looseObject({
+  ...baseToolFields,
+  type: z.literal("custom"),
+  url: z.string(),
   method: ToolHttpMethodSchema.optional(),
   parameter_type: ToolParameterTypeSchema.optional(),
+  /** JSON Schema for the arguments the LLM passes. */
   parameters: z.unknown().optional(),
   headers: z.record(z.string(), z.string()).optional(),
   query_params: z.record(z.string(), z.string()).optional(),
   args_at_root: z.boolean().optional(),
   timeout_ms: z.number().optional(),
+  /** Dynamic variable name -> JSON path into the response. */
   response_variables: z.record(z.string(), z.string()).optional(),
+  ...speechFields,
+})
 
-  // Speech behavior
-  speak_during_execution: z.boolean().optional(),
-  speak_after_execution: z.boolean().optional(),
-  execution_message_description: z.string().optional(),
+const ExtractDynamicVariableToolSchema = z.looseObject({
+  ...baseToolFields,
+  type: z.literal("extract_dynamic_variable"),
+  variables: z.array(ExtractedVariableSchema),
+})
 
-  // Transfer
-  transfer_destination: TransferDestinationSchema.optional(),
-  transfer_option: TransferOptionSchema.optional(),
-  custom_sip_headers: z.record(z.string(), z.string()).optional(),
+const AgentSwapToolSchema = z.looseObject({
+  ...baseToolFields,
+  type: z.literal("agent_swap"),
+  agent_id: z.string(),
+  agent_version: z.number().optional(),
+  post_call_analysis_setting: z
+    .enum(["both_agents", "only_destination_agent"])
+    .optional(),
+  webhook_setting: z
+    .enum(["both_agents", "only_destination_agent", "only_source_agent"])
+    .optional(),
+  speak_during_execution: speechFields.speak_during_execution,
+  execution_message_description: speechFields.execution_message_description,
+})
 
-  // Cal.com integration
-  cal_api_key: z.string().optional(),
-  event_type_id: z.number().optional(),
-  timezone: z.string().optional(),
+const McpToolSchema = z.looseObject({
+  ...baseToolFields,
+  type: z.literal("mcp"),
+  /** ID of the server in the LLM's `mcps`. */
+  mcp_id: z.string().optional(),
+  response_variables: z.record(z.string(), z.string()).optional(),
+  ...speechFields,
+})
+
+const SendSmsToolSchema = z.looseObject({
+  ...baseToolFields,
+  type: z.literal("send_sms"),
+  sms_content: SmsContentSchema,
 })
 
+/** Discriminated union of every tool type Retell documents. */
+export const KnownLlmToolSchema = z.discriminatedUnion("type", [
+  EndCallToolSchema,
+  TransferCallToolSchema,
+  CheckAvailabilityCalToolSchema,
+  BookAppointmentCalToolSchema,
+  PressDigitToolSchema,
+  CustomToolSchema,
+  ExtractDynamicVariableToolSchema,
+  AgentSwapToolSchema,
+  McpToolSchema,
+  SendSmsToolSchema,
+])
+
+/**
+ * A tool of a type Retell added after this package was published, kept as-is so
+ * configs round-trip. Its `type` can't be a known one: a known tool that fails
+ * its own schema is reported by field instead of falling through to here.
+ */
+const UnknownLlmToolSchema = z
+  .looseObject({
+    type: z.string(),
+    name: z.string().optional(),
+    description: z.string().optional(),
+    tool_id: z.string().optional(),
+  })
+  .superRefine((tool, ctx) => {
+    // Only reached once `KnownLlmToolSchema` has rejected the tool. For a known
+    // type, report why instead of a bare "Invalid input" from the union.
+    if (!LlmToolTypeSchema.safeParse(tool.type).success) return
+    for (const issue of KnownLlmToolSchema.safeParse(tool).error?.issues ??
+      []) {
+      ctx.addIssue({ code: "custom", path: issue.path, message: issue.message })
+    }
+  })
+
+/**
+ * Schema for an LLM tool: one of the known tool types, discriminated on `type`,
+ * or a tool of an unknown type passed through unchanged. Every tool schema is
+ * loose, so fields Retell adds survive a pull/push round trip. Use
+ * {@link isKnownLlmTool} to rule out the unknown-type member before narrowing on
+ * `type`.
+ */
+export const LlmToolSchema = z.union([KnownLlmToolSchema, UnknownLlmToolSchema])
+
+/** Whether a tool is of a type `KnownLlmToolSchema` covers. */
+export function isKnownLlmTool(tool: {
+  type: string
+}): tool is z.output<typeof KnownLlmToolSchema> {
+  return LlmToolTypeSchema.safeParse(tool.type).success
+}
+
 /** State transition edge within multi-prompt LLM. */
 export const LlmStateEdgeSchema = z.object({
   destination_state_name: z.string(),
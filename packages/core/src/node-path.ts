@@ -0,0 +1,155 @@
+import type { z } from "zod"
+import type { ChatMessageEntrySchema } from "./chat-messages"
+import type { SurroundingUtterance } from "./tool-calls"
+import type { TranscriptEntrySchema } from "./transcript"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type TranscriptEntry = z.infer<typeof TranscriptEntrySchema>
+type ChatMessageEntry = z.infer<typeof ChatMessageEntrySchema>
+
+/** One stay in a conversation flow node (or multi-prompt state). */
+export interface NodeVisit {
+  /** `node` for conversation flow agents, `state` for multi-prompt agents. */
+  kind: "node" | "state"
+  /** Node id. Undefined for states, which are only identified by name. */
+  id: string | undefined
+  name: string | undefined
+  /**
+   * When the conversation entered this node, in milliseconds. Relative to call
+   * start for calls (from `time_sec`); epoch milliseconds for chats (from
+   * `created_timestamp`). Undefined when the transcript doesn't say.
+   */
+  enteredAtMs: number | undefined
+  /** When the conversation left this node, in the same units as `enteredAtMs`. */
+  exitedAtMs: number | undefined
+  /** Time spent in this node. Undefined if either bound is unknown. */
+  dwellMs: number | undefined
+  /** Whether a global node transition brought the conversation here. */
+  enteredViaGlobal: boolean
+  /**
+   * Index of the transition entry that entered this node. Undefined for the
+   * first node, which is entered without a transition.
+   */
+  transitionIndex: number | undefined
+  /** Agent/user utterances exchanged while in this node. */
+  utterances: SurroundingUtterance[]
+}
+
+// ---------------------------------------------------------------------------
+// Reconstruction
+// ---------------------------------------------------------------------------
+
+type Transition = Extract<
+  TranscriptEntry | ChatMessageEntry,
+  { role: "node_transition" | "state_transition" }
+>
+
+function visitFor(
+  kind: NodeVisit["kind"],
+  id: string | undefined,
+  name: string | undefined,
+  enteredAtMs: number | undefined,
+): NodeVisit {
+  return {
+    kind,
+    id,
+    name,
+    enteredAtMs,
+    exitedAtMs: undefined,
+    dwellMs: undefined,
+    enteredViaGlobal: false,
+    transitionIndex: undefined,
+    utterances: [],
+  }
+}
+
+/** Transition time in ms: `time_sec` for calls, `created_timestamp` for chats. */
+function transitionTime(entry: Transition) {
+  if ("created_timestamp" in entry) return entry.created_timestamp
+  return entry.time_sec != null ? Math.round(entry.time_sec * 1000) : undefined
+}
+
+/**
+ * Reconstructs the ordered path through conversation flow nodes (or
+ * multi-prompt states) from `transcript_with_tool_calls` (calls) or
+ * `message_with_tool_calls` (chats).
+ *
+ * The first visit is the node named as `former_node` by the first transition.
+ * Each visit carries the utterances spoken in it and its dwell time. Pass
+ * `endMs` (e.g. the call's `duration_ms`, or the chat's `end_timestamp`) to
+ * bound the last visit. Returns an empty array when the transcript has no
+ * transitions.
+ *
+ * ```ts
+ * const path = reconstructNodePath(call.transcript_with_tool_calls, {
+ *   endMs: call.duration_ms,
+ * })
+ * path.map((v) => `${v.name} (${v.dwellMs}ms)`)
+ * ```
+ */
+export function reconstructNodePath(
+  entries: readonly (TranscriptEntry | ChatMessageEntry)[],
+  { endMs }: { endMs?: number } = {},
+): NodeVisit[] {
+  const first = entries.find(
+    (e): e is Transition =>
+      e.role === "node_transition" || e.role === "state_transition",
+  )
+  if (!first) return []
+
+  // Before the first transition the conversation sits in its start node. Calls
+  // measure from call start; chats from the first message.
+  const firstEntry = entries[0]
+  const startedAtMs =
+    firstEntry && "message_id" in firstEntry ? firstEntry.created_timestamp : 0
+
+  const path: NodeVisit[] = [
+    first.role === "state_transition"
+      ? visitFor("state", undefined, first.former_state_name, startedAtMs)
+      : visitFor(
+          "node",
+          first.former_node_id,
+          first.former_node_name,
+          startedAtMs,
+        ),
+  ]
+
+  entries.forEach((entry, index) => {
+    const current = path.at(-1)!
+    if (entry.role === "node_transition" || entry.role === "state_transition") {
+      const at = transitionTime(entry)
+      const next =
+        entry.role === "state_transition"
+          ? visitFor("state", undefined, entry.new_state_name, at)
+          : visitFor("node", entry.new_node_id, entry.new_node_name, at)
+      next.transitionIndex = index
+      next.enteredViaGlobal =
+        "global_transition" in entry && entry.global_transition === true
+      current.exitedAtMs = at
+      path.push(next)
+      return
+    }
+    if (
+      entry.role === "agent" ||
+      entry.role === "user" ||
+      entry.role === "transfer_target"
+    ) {
+      current.utterances.push({
+        role: entry.role,
+        content: entry.content,
+        index,
+      })
+    }
+  })
+
+  path.at(-1)!.exitedAtMs = endMs
+  for (const visit of path) {
+    if (visit.enteredAtMs != null && visit.exitedAtMs != null) {
+      visit.dwellMs = Math.max(0, visit.exitedAtMs - visit.enteredAtMs)
+    }
+  }
+  return path
+}
@@ -0,0 +1,35 @@
+// ---------------------------------------------------------------------------
+// Structural SQLite types
+//
+// Declared here so core doesn't import `bun:sqlite` at runtime. A `bun:sqlite`
+// `Database` satisfies `SqliteDatabaseLike` as-is.
+// ---------------------------------------------------------------------------
+
+/** Values accepted as positional bind parameters. */
+export type SqlValue = string | number | null
+
+/** Minimal structural type for a prepared `bun:sqlite` statement. */
+export interface SqliteStatementLike {
+  run(...params: SqlValue[]): { changes: number }
+  all(...params: SqlValue[]): unknown[]
+  get(...params: SqlValue[]): unknown
+}
+
+/** Minimal structural type for a `bun:sqlite` `Database`. */
+export interface SqliteDatabaseLike {
+  run(sql: string): unknown
+  query(sql: string): SqliteStatementLike
+}
+
+/** Runs `fn` inside a transaction, rolling back if it throws. */
+export function withTransaction<T>(db: SqliteDatabaseLike, fn: () => T): T {
+  db.run("BEGIN")
+  try {
+    const result = fn()
+    db.run("COMMIT")
+    return result
+  } catch (error) {
+    db.run("ROLLBACK")
+    throw error
+  }
+}
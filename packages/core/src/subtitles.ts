@@ -0,0 +1,257 @@
+import type { z } from "zod"
+import type {
+  TimestampedUtteranceSchema,
+  TranscriptEntrySchema,
+} from "./transcript"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type TimestampedUtterance = z.infer<typeof TimestampedUtteranceSchema>
+type TranscriptEntry = z.infer<typeof TranscriptEntrySchema>
+type Role = TimestampedUtterance["role"]
+
+/** A single caption. Times are ms relative to call start. */
+export interface SubtitleCue {
+  startMs: number
+  endMs: number
+  role: Role
+  text: string
+  /** True for DTMF/tool-call markers rather than speech. */
+  annotation: boolean
+}
+
+export type SubtitleFormat = "srt" | "vtt"
+
+export interface SubtitleOptions {
+  /** Longest time a single cue may span. Defaults to 5000ms. */
+  maxCueMs?: number
+  /** Most characters a single cue may hold. Defaults to 84 (two lines). */
+  maxCueChars?: number
+  /**
+   * `transcript_with_tool_calls`. When set, DTMF presses and tool calls become
+   * annotation cues placed after the preceding utterance.
+   */
+  annotations?: readonly TranscriptEntry[]
+  /** Prefix cues with the speaker. Defaults to true for combined tracks. */
+  speakerLabels?: boolean
+  /** Display names for speaker labels. */
+  labels?: Partial<Record<Role, string>>
+}
+
+// ---------------------------------------------------------------------------
+// Cues
+// ---------------------------------------------------------------------------
+
+const DEFAULT_LABELS: Record<Role, string> = {
+  agent: "Agent",
+  user: "User",
+  transfer_target: "Transfer target",
+}
+
+/** How long annotation cues stay on screen. */
+const ANNOTATION_MS = 1500
+
+const toMs = (sec: number) => Math.round(sec * 1000)
+
+function speechCues(
+  utterance: TimestampedUtterance,
+  maxCueMs: number,
+  maxCueChars: number,
+): SubtitleCue[] {
+  const cues: SubtitleCue[] = []
+  let current: SubtitleCue | undefined
+
+  for (const { word, start, end } of utterance.words) {
+    const text = word.trim()
+    if (!text) continue
+    const fits =
+      current &&
+      toMs(end) - current.startMs <= maxCueMs &&
+      current.text.length + 1 + text.length <= maxCueChars
+    if (current && fits) {
+      current.text += ` ${text}`
+      current.endMs = toMs(end)
+    } else {
+      current = {
+        startMs: toMs(start),
+        endMs: toMs(end),
+        role: utterance.role,
+        text,
+        annotation: false,
+      }
+      cues.push(current)
+    }
+  }
+  return cues
+}
+
+/**
+ * Turns DTMF and tool-call entries into annotation cues. Tool entries aren't
+ * timestamped, so each is placed at the end of the last spoken word before it.
+ * DTMF cues belong to the user; tool-call cues to the agent.
+ */
+function annotationCues(entries: readonly TranscriptEntry[]): SubtitleCue[] {
+  const cues: SubtitleCue[] = []
+  let atMs = 0
+  for (const entry of entries) {
+    if (
+      entry.role === "agent" ||
+      entry.role === "user" ||
+      entry.role === "transfer_target"
+    ) {
+      const last = entry.words?.at(-1)
+      if (last) atMs = toMs(last.end)
+    } else if (entry.role === "dtmf") {
+      cues.push({
+        startMs: atMs,
+        endMs: atMs + ANNOTATION_MS,
+        role: "user",
+        text: `[DTMF: ${entry.digit}]`,
+        annotation: true,
+      })
+    } else if (entry.role === "tool_call_invocation") {
+      cues.push({
+        startMs: atMs,
+        endMs: atMs + ANNOTATION_MS,
+        role: "agent",
+        text: `[Tool call: ${entry.name}]`,
+        annotation: true,
+      })
+    }
+  }
+  return cues
+}
+
+/**
+ * Builds caption cues from a call's `transcript_object`. Each utterance is
+ * split into cues of at most `maxCueMs` and `maxCueChars`; cues never span
+ * speakers. Returned in start-time order.
+ */
+export function buildSubtitleCues(
+  utterances: readonly TimestampedUtterance[],
+  {
+    maxCueMs = 5000,
+    maxCueChars = 84,
+    annotations,
+  }: Pick<SubtitleOptions, "maxCueMs" | "maxCueChars" | "annotations"> = {},
+): SubtitleCue[] {
+  const cues = utterances.flatMap((u) => speechCues(u, maxCueMs, maxCueChars))
+  if (annotations) cues.push(...annotationCues(annotations))
+  // Stable sort keeps annotations after speech that ends at the same moment.
+  return cues.sort((a, b) => a.startMs - b.startMs)
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+function timestamp(ms: number, separator: "," | ".") {
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0")
+  const hours = Math.floor(ms / 3_600_000)
+  const minutes = Math.floor(ms / 60_000) % 60
+  const seconds = Math.floor(ms / 1000) % 60
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`
+}
+
+/** Formats cues as SubRip (`.srt`). Speaker labels are `Label: text`. */
+export function formatSrt(
+  cues: readonly SubtitleCue[],
+  {
+    speakerLabels = true,
+    labels,
+  }: Pick<SubtitleOptions, "speakerLabels" | "labels"> = {},
+) {
+  const names = { ...DEFAULT_LABELS, ...labels }
+  return cues
+    .map((cue, i) => {
+      const text =
+        speakerLabels && !cue.annotation
+          ? `${names[cue.role]}: ${cue.text}`
+          : cue.text
+      return `${i + 1}\n${timestamp(cue.startMs, ",")} --> ${timestamp(cue.endMs, ",")}\n${text}\n`
+    })
+    .join("\n")
+}
+
+/** Formats cues as WebVTT (`.vtt`). Speaker labels use `<v Label>` voice tags. */
+export function formatWebVtt(
+  cues: readonly SubtitleCue[],
+  {
+    speakerLabels = true,
+    labels,
+  }: Pick<SubtitleOptions, "speakerLabels" | "labels"> = {},
+) {
+  const names = { ...DEFAULT_LABELS, ...labels }
+  const escape = (text: string) =>
+    text
+      .replaceAll("&", "&amp;")
+      .replaceAll("<", "&lt;")
+      .replaceAll(">", "&gt;")
+  const body = cues.map((cue) => {
+    const text =
+      speakerLabels && !cue.annotation
+        ? `<v ${names[cue.role]}>${escape(cue.text)}`
+        : escape(cue.text)
+    return `${timestamp(cue.startMs, ".")} --> ${timestamp(cue.endMs, ".")}\n${text}\n`
+  })
+  return ["WEBVTT\n", ...body].join("\n")
+}
+
+// ---------------------------------------------------------------------------
+// Tracks
+// ---------------------------------------------------------------------------
+
+function format(
+  cues: readonly SubtitleCue[],
+  subtitleFormat: SubtitleFormat,
+  options: SubtitleOptions,
+) {
+  return subtitleFormat === "srt"
+    ? formatSrt(cues, options)
+    : formatWebVtt(cues, options)
+}
+
+/**
+ * Exports a single caption track for a call recording, with every speaker
+ * labelled.
+ *
+ * ```ts
+ * const vtt = exportSubtitles(call.transcript_object ?? [], "vtt", {
+ *   annotations: call.transcript_with_tool_calls,
+ * })
+ * ```
+ */
+export function exportSubtitles(
+  utterances: readonly TimestampedUtterance[],
+  subtitleFormat: SubtitleFormat,
+  options: SubtitleOptions = {},
+) {
+  return format(buildSubtitleCues(utterances, options), subtitleFormat, options)
+}
+
+/**
+ * Exports one caption track per speaker role. Speaker labels are off by default
+ * since each track has a single speaker. DTMF annotations go to the user track;
+ * tool-call annotations to the agent track.
+ */
+export function exportSubtitleTracks(
+  utterances: readonly TimestampedUtterance[],
+  subtitleFormat: SubtitleFormat,
+  options: SubtitleOptions = {},
+): Record<Role, string> {
+  const cues = buildSubtitleCues(utterances, options)
+  const trackOptions = { speakerLabels: false, ...options }
+  const track = (role: Role) =>
+    format(
+      cues.filter((cue) => cue.role === role),
+      subtitleFormat,
+      trackOptions,
+    )
+  return {
+    agent: track("agent"),
+    user: track("user"),
+    transfer_target: track("transfer_target"),
+  }
+}
@@ -0,0 +1,219 @@
+import type { z } from "zod"
+import type { ChatMessageEntrySchema } from "./chat-messages"
+import type { TranscriptEntrySchema } from "./transcript"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type TranscriptEntry = z.infer<typeof TranscriptEntrySchema>
+type ChatMessageEntry = z.infer<typeof ChatMessageEntrySchema>
+
+/** Zod schemas for tool arguments, keyed by tool name. */
+export type ToolArgSchemas = Record<string, z.ZodType>
+
+/** Outcome of parsing a tool call's stringified `arguments`. */
+export type ToolArgsResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: unknown }
+
+/** An agent/user utterance adjacent to a tool call. */
+export interface SurroundingUtterance {
+  role: "agent" | "user" | "transfer_target"
+  content: string
+  /** Index of the utterance in the transcript. */
+  index: number
+}
+
+interface PairedToolCallBase {
+  tool_call_id: string
+  /** Raw stringified JSON arguments, as sent by Retell. */
+  arguments: string
+  /** Tool result content. Undefined if no result was recorded. */
+  result: string | undefined
+  /**
+   * `success`/`failure` from the result's `successful` flag (a result without
+   * the flag counts as success), or `pending` if no result was recorded.
+   */
+  status: "success" | "failure" | "pending"
+  /** Index of the invocation entry in the transcript. */
+  invocationIndex: number
+  /** Index of the result entry in the transcript. */
+  resultIndex: number | undefined
+  /** Last utterance before the invocation. */
+  before: SurroundingUtterance | undefined
+  /** First utterance after the result (or invocation, if no result). */
+  after: SurroundingUtterance | undefined
+  /**
+   * Milliseconds between invocation and result. For chats this comes from
+   * `created_timestamp`. Call transcripts don't timestamp tool entries, so it's
+   * estimated as the gap between the last word spoken before the invocation and
+   * the first word spoken after the result. Undefined when neither is known.
+   */
+  elapsedMs: number | undefined
+}
+
+/**
+ * A tool invocation paired with its result. Discriminated on `hasSchema`, then
+ * `name`: narrowing both gives the tool's typed `args`.
+ */
+export type PairedToolCall<TSchemas extends ToolArgSchemas = {}> =
+  | {
+      [K in keyof TSchemas & string]: PairedToolCallBase & {
+        name: K
+        hasSchema: true
+        args: ToolArgsResult<z.output<TSchemas[K]>>
+      }
+    }[keyof TSchemas & string]
+  | (PairedToolCallBase & {
+      name: string
+      hasSchema: false
+      args: ToolArgsResult<unknown>
+    })
+
+// ---------------------------------------------------------------------------
+// Pairing
+// ---------------------------------------------------------------------------
+
+const UTTERANCE_ROLES = new Set(["agent", "user", "transfer_target"])
+
+type Utterance = Extract<
+  TranscriptEntry | ChatMessageEntry,
+  { role: "agent" | "user" | "transfer_target" }
+>
+
+function isUtterance(entry: TranscriptEntry | ChatMessageEntry) {
+  return UTTERANCE_ROLES.has(entry.role)
+}
+
+function toSurrounding(
+  entries: readonly (TranscriptEntry | ChatMessageEntry)[],
+  index: number,
+): SurroundingUtterance | undefined {
+  const entry = entries[index] as Utterance | undefined
+  return entry ? { role: entry.role, content: entry.content, index } : undefined
+}
+
+/** Parses stringified arguments, validating against `schema` when provided. */
+function parseArgs(raw: string, schema?: z.ZodType): ToolArgsResult<unknown> {
+  let json: unknown
+  try {
+    json = raw.trim() === "" ? {} : JSON.parse(raw)
+  } catch (error) {
+    return { success: false, error }
+  }
+  if (!schema) return { success: true, data: json }
+  const result = schema.safeParse(json)
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: result.error }
+}
+
+/**
+ * Pairs `tool_call_invocation` entries with their `tool_call_result` by
+ * `tool_call_id`, and parses each invocation's stringified `arguments`. Works
+ * on `transcript_with_tool_calls` (calls) and `message_with_tool_calls`
+ * (chats).
+ *
+ * Pass Zod schemas keyed by tool name to validate and type the arguments; tools
+ * without a schema get their arguments `JSON.parse`d as `unknown`.
+ *
+ * ```ts
+ * const calls = pairToolCalls(call.transcript_with_tool_calls, {
+ *   book_appointment: z.object({ date: z.string(), time: z.string() }),
+ * })
+ * for (const c of calls) {
+ *   if (c.hasSchema && c.name === "book_appointment" && c.args.success) {
+ *     c.args.data.date
+ *   }
+ * }
+ * ```
+ */
+export function pairToolCalls<TSchemas extends ToolArgSchemas = {}>(
+  entries: readonly (TranscriptEntry | ChatMessageEntry)[],
+  schemas?: TSchemas,
+): PairedToolCall<TSchemas>[] {
+  const paired: PairedToolCall<TSchemas>[] = []
+  entries.forEach((entry, invocationIndex) => {
+    if (entry.role !== "tool_call_invocation") return
+
+    // The first result after the invocation, so a retried call that reuses
+    // its `tool_call_id` is paired with its own result.
+    const found = entries.findIndex(
+      (e, i) =>
+        i > invocationIndex &&
+        e.role === "tool_call_result" &&
+        e.tool_call_id === entry.tool_call_id,
+    )
+    const resultIndex = found >= 0 ? found : undefined
+    const result =
+      resultIndex != null
+        ? (entries[resultIndex] as Extract<
+            TranscriptEntry | ChatMessageEntry,
+            { role: "tool_call_result" }
+          >)
+        : undefined
+
+    const beforeIndex = entries.findLastIndex(
+      (e, i) => i < invocationIndex && isUtterance(e),
+    )
+    const afterIndex = entries.findIndex(
+      (e, i) => i > (resultIndex ?? invocationIndex) && isUtterance(e),
+    )
+
+    const schema =
+      schemas && Object.hasOwn(schemas, entry.name)
+        ? schemas[entry.name]
+        : undefined
+    const successful =
+      result && "successful" in result ? result.successful : undefined
+
+    paired.push({
+      tool_call_id: entry.tool_call_id,
+      name: entry.name,
+      hasSchema: schema != null,
+      arguments: entry.arguments,
+      args: parseArgs(entry.arguments, schema),
+      result: result?.content,
+      status: !result
+        ? "pending"
+        : successful === false
+          ? "failure"
+          : "success",
+      invocationIndex,
+      resultIndex,
+      before:
+        beforeIndex >= 0 ? toSurrounding(entries, beforeIndex) : undefined,
+      after: afterIndex >= 0 ? toSurrounding(entries, afterIndex) : undefined,
+      elapsedMs: elapsedMs(entries, entry, result, beforeIndex, afterIndex),
+    } as PairedToolCall<TSchemas>)
+  })
+
+  return paired
+}
+
+/** See `PairedToolCallBase.elapsedMs`. */
+function elapsedMs(
+  entries: readonly (TranscriptEntry | ChatMessageEntry)[],
+  invocation: TranscriptEntry | ChatMessageEntry,
+  result: TranscriptEntry | ChatMessageEntry | undefined,
+  beforeIndex: number,
+  afterIndex: number,
+) {
+  if (!result) return undefined
+
+  const invokedAt =
+    "created_timestamp" in invocation ? invocation.created_timestamp : undefined
+  const resolvedAt =
+    "created_timestamp" in result ? result.created_timestamp : undefined
+  if (invokedAt != null && resolvedAt != null) return resolvedAt - invokedAt
+
+  const before = entries[beforeIndex]
+  const after = entries[afterIndex]
+  const lastWordEnd =
+    before && "words" in before ? before.words?.at(-1)?.end : undefined
+  const firstWordStart =
+    after && "words" in after ? after.words?.[0]?.start : undefined
+  if (lastWordEnd == null || firstWordStart == null) return undefined
+  return Math.max(0, Math.round((firstWordStart - lastWordEnd) * 1000))
+}
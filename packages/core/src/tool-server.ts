@@ -0,0 +1,273 @@
+import { z } from "zod"
+import { CallSchemas } from "./call"
+import type { CallSchemasLike } from "./lifecycle"
+import {
+  type VerifyWebhookSignatureOptions,
+  verifyWebhookSignature,
+} from "./webhook-signature"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Retell's default `timeout_ms` for custom tools (2 minutes). */
+export const DEFAULT_TOOL_TIMEOUT_MS = 2 * 60 * 1000
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * What a tool handler returns. Objects and other JSON values are sent as JSON,
+ * so the tool's `response_variables` paths (`$.order.status`) resolve against
+ * them; strings are sent as plain text; a `Response` is sent as-is; nothing
+ * responds `204`.
+ */
+export type ToolResult = string | number | boolean | null | object | void
+
+/** Everything about the request besides the arguments. */
+export interface ToolCallContext<TCall> {
+  /** Tool name the request was routed by. */
+  name: string
+  /**
+   * The call in progress, parsed with `schemas.base`. Undefined when the
+   * request doesn't include one.
+   */
+  call: TCall | undefined
+  /** Aborted when the tool's deadline passes. */
+  signal: AbortSignal
+  req: Request
+}
+
+export interface ToolDefinition<TArgs extends z.ZodType, TCall> {
+  /** Schema for the arguments, e.g. from `retell codegen`'s `toolArgs`. */
+  args: TArgs
+  handler: (
+    args: z.output<TArgs>,
+    ctx: ToolCallContext<TCall>,
+  ) => MaybePromise<ToolResult>
+  /**
+   * The tool's Retell config (e.g. a pulled `custom` tool). `args_at_root`
+   * reads arguments from the body root instead of `args`, and `timeout_ms` sets
+   * the deadline. Defaults to nested args and a 2 minute timeout.
+   */
+  tool?: { args_at_root?: boolean | null; timeout_ms?: number | null }
+}
+
+/** Tool definitions keyed by tool name, with arguments typed per tool. */
+export type ToolDefinitions<TArgs extends Record<string, z.ZodType>, TCall> = {
+  [K in keyof TArgs]: ToolDefinition<TArgs[K], TCall>
+}
+
+export interface ToolServerOptions<
+  TSchemas extends CallSchemasLike,
+> extends VerifyWebhookSignatureOptions {
+  /**
+   * Schemas from `createCallSchemas()`, used to type `call`. Defaults to
+   * `CallSchemas` (loose types for custom fields).
+   */
+  schemas?: TSchemas
+  /**
+   * Retell API key used to verify the `x-retell-signature` header. Signature
+   * verification is skipped when omitted.
+   */
+  apiKey?: string
+  /**
+   * Time kept back from each tool's `timeout_ms`, so the timeout response
+   * reaches Retell before it gives up on the request. Defaults to 1 second;
+   * every tool's `timeout_ms` must be longer.
+   */
+  timeoutMarginMs?: number
+  /**
+   * Called when a handler throws (the server responds with `500`), or rejects
+   * after its deadline has passed. Errors thrown by `onError` are ignored.
+   */
+  onError?: (error: unknown, req: Request) => MaybePromise<void>
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+const RequestBodySchema = z.looseObject({
+  name: z.unknown(),
+  call: z.unknown(),
+  args: z.unknown(),
+})
+
+const TIMED_OUT = Symbol("timed out")
+
+/**
+ * Creates a Fetch-style endpoint for Retell custom tools. Retell POSTs `{ name,
+ * call, args }`; the request is routed to the tool by `name`, or by the last
+ * URL path segment for `args_at_root` tools (whose arguments replace the
+ * envelope, so a root `name` is just an argument). Its arguments are validated
+ * against the tool's schema, and the handler's result is sent back for the LLM
+ * and `response_variables`.
+ *
+ * Responses:
+ *
+ * - `401` — signature missing or invalid (only when `apiKey` is set)
+ * - `400` — body isn't JSON, or `args`/`call` fail validation
+ * - `404` — no tool with that name
+ * - `504` — the handler ran past the tool's `timeout_ms`, less the margin
+ * - `500` — the handler threw (reported to `onError`)
+ *
+ * ```ts
+ * const handle = createToolServer(
+ *   {
+ *     lookup_order: {
+ *       args: z.object({ order_id: z.string() }),
+ *       handler: async ({ order_id }, { call }) => ({
+ *         order: await getOrder(order_id, call?.metadata.customer_id),
+ *       }),
+ *       tool: { timeout_ms: 10_000 },
+ *     },
+ *   },
+ *   { schemas: callSchemas, apiKey: process.env.RETELL_API_KEY },
+ * )
+ *
+ * Bun.serve({ routes: { "/tools/*": handle } })
+ * ```
+ */
+export function createToolServer<
+  TArgs extends Record<string, z.ZodType>,
+  TSchemas extends CallSchemasLike = typeof CallSchemas,
+>(
+  tools: ToolDefinitions<TArgs, z.output<TSchemas["base"]>>,
+  options: ToolServerOptions<TSchemas> = {},
+): (req: Request) => Promise<Response> {
+  const schemas = options.schemas ?? CallSchemas
+  const timeoutMarginMs = options.timeoutMarginMs ?? 1000
+  const definitions = new Map<
+    string,
+    ToolDefinition<z.ZodType, z.output<TSchemas["base"]>>
+  >(Object.entries(tools))
+  for (const [name, definition] of definitions) {
+    const timeoutMs = definition.tool?.timeout_ms ?? DEFAULT_TOOL_TIMEOUT_MS
+    if (timeoutMs <= timeoutMarginMs) {
+      throw new Error(
+        `Tool "${name}": timeout_ms (${timeoutMs}) must be longer than timeoutMarginMs (${timeoutMarginMs})`,
+      )
+    }
+  }
+
+  const report = async (error: unknown, req: Request) => {
+    try {
+      await options.onError?.(error, req)
+    } catch {
+      // Nothing left to report to; the response doesn't depend on it.
+    }
+  }
+
+  return async (req) => {
+    const rawBody = await req.text()
+
+    if (options.apiKey != null) {
+      const valid = await verifyWebhookSignature(
+        rawBody,
+        req.headers.get("x-retell-signature"),
+        options.apiKey,
+        options,
+      )
+      if (!valid) return new Response("Invalid signature", { status: 401 })
+    }
+
+    let body: unknown
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return new Response("Invalid JSON", { status: 400 })
+    }
+    const envelope = RequestBodySchema.safeParse(body).data
+    if (!envelope) return new Response("Invalid JSON", { status: 400 })
+
+    // An `args_at_root` tool's body is its arguments, so a root `name` is an
+    // argument rather than the tool; those are routed by path alone.
+    const pathName = lastPathSegment(req.url)
+    const pathTool = pathName != null ? definitions.get(pathName) : undefined
+    const name = pathTool?.tool?.args_at_root
+      ? pathName
+      : typeof envelope.name === "string"
+        ? envelope.name
+        : undefined
+    const definition = name != null ? definitions.get(name) : undefined
+    if (name == null || !definition) {
+      return Response.json(
+        { error: `Unknown tool "${name ?? pathName ?? ""}"` },
+        { status: 404 },
+      )
+    }
+
+    const args = definition.args.safeParse(
+      definition.tool?.args_at_root ? body : (envelope.args ?? {}),
+    )
+    if (!args.success) {
+      return Response.json(
+        { error: "Invalid tool arguments", issues: args.error.issues },
+        { status: 400 },
+      )
+    }
+
+    let call: z.output<TSchemas["base"]> | undefined
+    if (envelope.call !== undefined) {
+      const parsed = schemas.base.safeParse(envelope.call)
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid call", issues: parsed.error.issues },
+          { status: 400 },
+        )
+      }
+      call = parsed.data as z.output<TSchemas["base"]>
+    }
+
+    const timeoutMs =
+      (definition.tool?.timeout_ms ?? DEFAULT_TOOL_TIMEOUT_MS) - timeoutMarginMs
+    const controller = new AbortController()
+    const run = Promise.resolve().then(() =>
+      definition.handler(args.data, {
+        name,
+        call,
+        signal: controller.signal,
+        req,
+      }),
+    )
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const deadline = new Promise<typeof TIMED_OUT>((resolve) => {
+      timer = setTimeout(() => resolve(TIMED_OUT), timeoutMs)
+    })
+
+    try {
+      const result = await Promise.race([run, deadline])
+      if (result === TIMED_OUT) {
+        controller.abort()
+        // Still report handlers that fail after the response went out.
+        run.catch((error: unknown) => report(error, req))
+        return Response.json(
+          { error: `Tool "${name}" timed out after ${timeoutMs}ms` },
+          { status: 504 },
+        )
+      }
+      return toolResponse(result)
+    } catch (error) {
+      await report(error, req)
+      return new Response("Tool handler failed", { status: 500 })
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+/** The decoded last path segment, or undefined if it's malformed. */
+function lastPathSegment(url: string) {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split("/").pop() ?? "")
+  } catch {
+    return undefined
+  }
+}
+
+function toolResponse(result: ToolResult) {
+  if (result instanceof Response) return result
+  if (result === undefined) return new Response(null, { status: 204 })
+  if (typeof result === "string") return new Response(result)
+  return Response.json(result)
+}
@@ -0,0 +1,186 @@
+import type { z } from "zod"
+import type { TimestampedUtteranceSchema } from "./transcript"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type TimestampedUtterance = z.infer<typeof TimestampedUtteranceSchema>
+type Role = TimestampedUtterance["role"]
+
+/** Talk-time metrics for one role. */
+export interface RoleTalkMetrics {
+  /** Number of utterances. */
+  turns: number
+  wordCount: number
+  /** Summed utterance spans (first word start -> last word end). */
+  talkMs: number
+  /** Share of total talk time across all roles, 0-1. */
+  talkRatio: number
+  /** Undefined if the role never spoke. */
+  wordsPerMinute: number | undefined
+}
+
+/** A pause between utterances at least `silenceThresholdMs` long. */
+export interface SilenceGap {
+  /** Index of the utterance the silence follows. */
+  afterIndex: number
+  startMs: number
+  endMs: number
+  durationMs: number
+}
+
+/** A stretch where an utterance starts before the previous speaker finished. */
+export interface Overlap {
+  /** Index of the utterance that started early. */
+  index: number
+  /** Index of the utterance it overlapped. */
+  overlappedIndex: number
+  /** Role that started speaking early. */
+  role: Role
+  startMs: number
+  durationMs: number
+  /** Whether the overlap was long enough to count as an interruption. */
+  interruption: boolean
+}
+
+/** Turn-taking metrics for a call. All times are ms relative to call start. */
+export interface TurnTakingMetrics {
+  roles: Record<Role, RoleTalkMetrics>
+  /** Start of the agent's first word. Undefined if the agent never spoke. */
+  timeToFirstAgentWordMs: number | undefined
+  /**
+   * Average gap between the end of a user utterance and the start of the
+   * agent's reply. Undefined if the agent never replied to the user.
+   */
+  averageAgentResponseMs: number | undefined
+  silences: SilenceGap[]
+  totalSilenceMs: number
+  longestSilenceMs: number
+  overlaps: Overlap[]
+  /** Interruption counts by the role that interrupted. */
+  interruptions: Record<Role, number>
+}
+
+export interface TurnTakingOptions {
+  /** Minimum pause counted as a silence gap. Defaults to 2000ms. */
+  silenceThresholdMs?: number
+  /** Minimum overlap counted as an interruption. Defaults to 500ms. */
+  interruptionThresholdMs?: number
+}
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+const ROLES = ["agent", "user", "transfer_target"] as const satisfies Role[]
+
+const toMs = (sec: number) => Math.round(sec * 1000)
+
+function byRole<T>(init: () => T): Record<Role, T> {
+  return { agent: init(), user: init(), transfer_target: init() }
+}
+
+/**
+ * Computes turn-taking metrics from a call's `transcript_object` word
+ * timestamps: talk time and words per minute per role, silence gaps, overlaps
+ * and interruptions, and agent responsiveness. Utterances without words are
+ * skipped. The result is plain JSON, suitable for storing alongside the call.
+ *
+ * ```ts
+ * const metrics = computeTurnTakingMetrics(call.transcript_object ?? [])
+ * if (metrics.interruptions.agent > 3) flag(call, "agent talks over user")
+ * ```
+ */
+export function computeTurnTakingMetrics(
+  utterances: readonly TimestampedUtterance[],
+  {
+    silenceThresholdMs = 2000,
+    interruptionThresholdMs = 500,
+  }: TurnTakingOptions = {},
+): TurnTakingMetrics {
+  const totals = byRole(() => ({ turns: 0, wordCount: 0, talkMs: 0 }))
+  const silences: SilenceGap[] = []
+  const overlaps: Overlap[] = []
+  const interruptions = byRole(() => 0)
+  const responseGaps: number[] = []
+  let timeToFirstAgentWordMs: number | undefined
+  let previous: { index: number; role: Role; endMs: number } | undefined
+
+  utterances.forEach((utterance, index) => {
+    const first = utterance.words[0]
+    const last = utterance.words.at(-1)
+    if (!first || !last) return
+
+    const startMs = toMs(first.start)
+    const endMs = toMs(last.end)
+    const total = totals[utterance.role]
+    total.turns++
+    total.wordCount += utterance.words.length
+    total.talkMs += endMs - startMs
+
+    if (utterance.role === "agent") timeToFirstAgentWordMs ??= startMs
+
+    if (previous) {
+      const gap = startMs - previous.endMs
+      if (gap >= silenceThresholdMs) {
+        silences.push({
+          afterIndex: previous.index,
+          startMs: previous.endMs,
+          endMs: startMs,
+          durationMs: gap,
+        })
+      }
+      if (gap < 0 && previous.role !== utterance.role) {
+        const durationMs = Math.min(previous.endMs, endMs) - startMs
+        const interruption = durationMs >= interruptionThresholdMs
+        if (interruption) interruptions[utterance.role]++
+        overlaps.push({
+          index,
+          overlappedIndex: previous.index,
+          role: utterance.role,
+          startMs,
+          durationMs,
+          interruption,
+        })
+      }
+      if (previous.role === "user" && utterance.role === "agent") {
+        responseGaps.push(Math.max(0, gap))
+      }
+    }
+
+    // An utterance swallowed by a longer one doesn't end the earlier turn.
+    if (!previous || endMs >= previous.endMs) {
+      previous = { index, role: utterance.role, endMs }
+    }
+  })
+
+  const totalTalkMs = ROLES.reduce((sum, role) => sum + totals[role].talkMs, 0)
+  const roles = Object.fromEntries(
+    ROLES.map((role) => {
+      const { turns, wordCount, talkMs } = totals[role]
+      const metrics: RoleTalkMetrics = {
+        turns,
+        wordCount,
+        talkMs,
+        talkRatio: totalTalkMs > 0 ? talkMs / totalTalkMs : 0,
+        wordsPerMinute: talkMs > 0 ? wordCount / (talkMs / 60_000) : undefined,
+      }
+      return [role, metrics]
+    }),
+  ) as Record<Role, RoleTalkMetrics>
+
+  return {
+    roles,
+    timeToFirstAgentWordMs,
+    averageAgentResponseMs:
+      responseGaps.length > 0
+        ? responseGaps.reduce((a, b) => a + b, 0) / responseGaps.length
+        : undefined,
+    silences,
+    totalSilenceMs: silences.reduce((sum, s) => sum + s.durationMs, 0),
+    longestSilenceMs: Math.max(0, ...silences.map((s) => s.durationMs)),
+    overlaps,
+    interruptions,
+  }
+}
@@ -14,7 +14,13 @@ import {
   chatSchemaDefaults,
   createChatSchemas,
   WebhookSchemas,
+  analysisSchemaFromFields,
+  createLifecycleReducers,
+  createWebhookHandler,
+  createToolServer,
   createWebhookSchemas,
+  isKnownLlmTool,
+  LlmToolSchema,
 } from "./index"
 
 // ---------------------------------------------------------------------------
@@ -188,10 +194,174 @@ function assertWebhookTypes() {
     const _ts: Date = customEvent.call.start_timestamp
     return { _meta, _ts }
   }
+  if (customEvent.event === "transfer_bridged") {
+    // Transfer events carry the base call plus transfer-specific fields
+    const _meta: { location_id: string | null } = customEvent.call.metadata
+    const _dest: string | null | undefined = customEvent.transfer_destination
+    return { _meta, _dest }
+  }
+  if (customEvent.event === "transcript_updated") {
+    return customEvent.call.transcript_with_tool_calls
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 5. Webhook handler - verify per-event payloads are narrowed
+// ---------------------------------------------------------------------------
+
+createWebhookHandler({
+  schemas: customWebhooks,
+  call_started: ({ call }) => {
+    const _meta: { location_id: string | null } = call.metadata
+    void _meta
+  },
+  call_analyzed: ({ call }) => {
+    const _analysis: {
+      first_name: string | null
+      should_create_crm_sales_lead: boolean
+    } = call.call_analysis.custom_analysis_data
+    void _analysis
+  },
+  transfer_started: (payload) => {
+    const _dest: string | null | undefined = payload.transfer_destination
+    void _dest
+  },
+  chat_ended: ({ chat }) => {
+    const _chatId: string = chat.chat_id
+    void _chatId
+  },
+})
+
+createWebhookHandler({
+  call_ended: ({ call }) => {
+    const _end: Date = call.end_timestamp
+    void _end
+  },
+  // @ts-expect-error - not a webhook event
+  call_exploded: () => {},
+})
+
+// ---------------------------------------------------------------------------
+// 6. Lifecycle reducers - webhook payloads feed snapshots, stage narrows call
+// ---------------------------------------------------------------------------
+
+const customReducers = createLifecycleReducers({
+  call: customCallSchemas,
+  chat: ChatSchemas,
+})
+
+function assertLifecycleTypes() {
+  const event = {} as CustomWebhookEvent
+  if (event.event === "chat_ended" || event.event === "chat_analyzed") {
+    return customReducers.reduceChat(undefined, event).chat.chat_id
+  }
+
+  const snapshot = customReducers.reduceCall(undefined, event)
+  const _meta: { location_id: string | null } = snapshot.call.metadata
+  if (snapshot.stage === "analyzed") {
+    const _first: string | null =
+      snapshot.call.call_analysis.custom_analysis_data.first_name
+    return _first
+  }
+  if (snapshot.stage === "ended") {
+    const _end: Date = snapshot.call.end_timestamp
+    return _end
+  }
+  return _meta
 }
 
+// ---------------------------------------------------------------------------
+// 7. Analysis data from agent config - literal field lists give typed keys
+// ---------------------------------------------------------------------------
+
+const derivedCallSchemas = createCallSchemas({
+  ...callSchemaDefaults,
+  analysisData: analysisSchemaFromFields([
+    { type: "enum", name: "outcome", choices: ["booked", "declined"] },
+    { type: "boolean", name: "wants_callback" },
+    { type: "number", name: "party_size" },
+    { type: "string", name: "notes" },
+  ]),
+})
+
+function assertDerivedAnalysisTypes() {
+  const analyzed = {} as Flatten<z.infer<typeof derivedCallSchemas.analyzed>>
+  const data = analyzed.call_analysis.custom_analysis_data
+  if (!data) return
+  const _outcome: "booked" | "declined" | null | undefined = data.outcome
+  const _callback: boolean | null | undefined = data.wants_callback
+  const _size: number | null | undefined = data.party_size
+  const _notes: string | null | undefined = data.notes
+  // @ts-expect-error - enum values are narrowed to the configured choices
+  const _bad: "cancelled" | null | undefined = data.outcome
+
+  // Runtime-only field lists fall back to a loose object
+  const runtime = analysisSchemaFromFields(
+    [] as { type: "string"; name: string }[],
+  )
+  const _loose: Record<string, unknown> | undefined = runtime.parse({})
+  return { _outcome, _callback, _size, _notes, _bad, _loose }
+}
+
+// ---------------------------------------------------------------------------
+// 8. LLM tools - discriminated on `type`
+// ---------------------------------------------------------------------------
+
+type LlmTool = z.infer<typeof LlmToolSchema>
+
+function assertLlmToolTypes() {
+  const tool = {} as LlmTool
+  // The unknown-type member keeps `type` a plain string until ruled out
+  // @ts-expect-error - url isn't known to be a string yet
+  const _unnarrowed: string = tool.type === "custom" ? tool.url : ""
+  if (isKnownLlmTool(tool) && tool.type === "custom") {
+    const _url: string = tool.url
+    void _url
+  }
+  if (isKnownLlmTool(tool) && tool.type === "agent_swap") {
+    const _agent: string = tool.agent_id
+    void _agent
+  }
+  const _custom: Extract<LlmTool, { type: "custom" }>["url"] = "https://x"
+
+  const _unknown: z.input<typeof LlmToolSchema> = {
+    type: "future_tool",
+    name: "later",
+  }
+  return { _unnarrowed, _custom, _unknown }
+}
+
+// ---------------------------------------------------------------------------
+// 9. Tool server - args typed per tool, call typed by the schemas
+// ---------------------------------------------------------------------------
+
+createToolServer(
+  {
+    lookup_order: {
+      args: z.object({ order_id: z.string() }),
+      handler: ({ order_id }, { call }) => {
+        const _id: string = order_id
+        const _meta: { location_id: string | null } | undefined = call?.metadata
+        return { _id, _meta }
+      },
+    },
+    book: {
+      args: z.object({ slot: z.number() }),
+      handler: (args) => {
+        // @ts-expect-error - args belong to lookup_order
+        const _id: string = args.order_id
+        return { booked: args.slot, _id }
+      },
+    },
+  },
+  { schemas: customCallSchemas },
+)
+
 // Ensure all assertion functions are "used"
 void assertDefaultCallTypes
 void assertCustomCallTypes
 void assertChatTypes
 void assertWebhookTypes
+void assertLifecycleTypes
+void assertDerivedAnalysisTypes
+void assertLlmToolTypes
@@ -75,3 +75,26 @@ export async function resolveFilePlaceholders(
     )
   }
 }
+
+/**
+ * Serializes rows to RFC 4180 CSV. Columns come from the first row's keys;
+ * undefined/null cells are left empty. Fields containing commas, quotes or
+ * newlines are quoted.
+ */
+export function toCsv(
+  rows: readonly Record<string, string | number | boolean | null | undefined>[],
+) {
+  const columns = Object.keys(rows[0] ?? {})
+  const cell = (value: string | number | boolean | null | undefined) => {
+    const text = value == null ? "" : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+  }
+  return [columns, ...rows.map((row) => columns.map((c) => row[c]))]
+    .map((cells) => cells.map(cell).join(","))
+    .join("\n")
+}
+
+/** Escapes text for a quoted Mermaid label. */
+export function mermaidLabel(text: string) {
+  return text.replaceAll('"', "#quot;")
+}
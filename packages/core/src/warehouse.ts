@@ -0,0 +1,846 @@
+import type { z } from "zod"
+import type { CallSchemas } from "./call"
+import type { ChatSchemas } from "./chat"
+import type { ChatMessageEntrySchema } from "./chat-messages"
+import type {
+  CallSchemasLike,
+  CallSnapshot,
+  ChatSchemasLike,
+  ChatSnapshot,
+} from "./lifecycle"
+import {
+  type SqlValue,
+  type SqliteDatabaseLike,
+  withTransaction,
+} from "./sqlite"
+import { pairToolCalls } from "./tool-calls"
+import type { TranscriptEntrySchema } from "./transcript"
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/**
+ * DDL for the warehouse tables. Timestamps are stored as millisecond epochs,
+ * booleans as 0/1, and free-form objects as JSON text. Child tables are keyed
+ * by `conversation_id`, which is a `call_id` or `chat_id`.
+ */
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS calls (
+    call_id TEXT PRIMARY KEY,
+    stage TEXT NOT NULL,
+    stage_rank INTEGER NOT NULL,
+    agent_id TEXT,
+    agent_name TEXT,
+    agent_version INTEGER,
+    call_type TEXT NOT NULL,
+    direction TEXT,
+    from_number TEXT,
+    to_number TEXT,
+    call_status TEXT NOT NULL,
+    start_timestamp INTEGER,
+    end_timestamp INTEGER,
+    duration_ms INTEGER,
+    disconnection_reason TEXT,
+    recording_url TEXT,
+    transcript TEXT,
+    call_summary TEXT,
+    call_successful INTEGER,
+    user_sentiment TEXT,
+    in_voicemail INTEGER,
+    combined_cost REAL,
+    metadata TEXT,
+    dynamic_variables TEXT,
+    collected_dynamic_variables TEXT,
+    custom_analysis_data TEXT
+  )`,
+  `CREATE INDEX IF NOT EXISTS calls_agent_idx ON calls (agent_id, start_timestamp)`,
+  `CREATE TABLE IF NOT EXISTS chats (
+    chat_id TEXT PRIMARY KEY,
+    stage TEXT NOT NULL,
+    stage_rank INTEGER NOT NULL,
+    agent_id TEXT,
+    agent_version INTEGER,
+    chat_type TEXT,
+    chat_status TEXT NOT NULL,
+    start_timestamp INTEGER,
+    end_timestamp INTEGER,
+    transcript TEXT,
+    chat_summary TEXT,
+    chat_successful INTEGER,
+    user_sentiment TEXT,
+    combined_cost REAL,
+    metadata TEXT,
+    dynamic_variables TEXT,
+    collected_dynamic_variables TEXT,
+    custom_analysis_data TEXT
+  )`,
+  `CREATE INDEX IF NOT EXISTS chats_agent_idx ON chats (agent_id, start_timestamp)`,
+  `CREATE TABLE IF NOT EXISTS transcript_entries (
+    conversation_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT,
+    start_sec REAL,
+    end_sec REAL,
+    created_timestamp INTEGER,
+    data TEXT NOT NULL,
+    PRIMARY KEY (conversation_id, position)
+  )`,
+  `CREATE TABLE IF NOT EXISTS tool_calls (
+    conversation_id TEXT NOT NULL,
+    tool_call_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    arguments TEXT NOT NULL,
+    result TEXT,
+    successful INTEGER,
+    invocation_position INTEGER NOT NULL,
+    result_position INTEGER,
+    PRIMARY KEY (conversation_id, tool_call_id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS node_transitions (
+    conversation_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    former_node_id TEXT,
+    former_node_name TEXT,
+    new_node_id TEXT,
+    new_node_name TEXT,
+    time_sec REAL,
+    created_timestamp INTEGER,
+    global_transition INTEGER,
+    PRIMARY KEY (conversation_id, position)
+  )`,
+  `CREATE TABLE IF NOT EXISTS product_costs (
+    conversation_id TEXT NOT NULL,
+    product TEXT NOT NULL,
+    unit_price REAL,
+    cost REAL NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS product_costs_conversation_idx ON product_costs (conversation_id)`,
+  `CREATE TABLE IF NOT EXISTS latency_metrics (
+    call_id TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    p50 REAL NOT NULL,
+    p90 REAL NOT NULL,
+    p95 REAL NOT NULL,
+    p99 REAL NOT NULL,
+    min REAL NOT NULL,
+    max REAL NOT NULL,
+    num INTEGER NOT NULL,
+    "values" TEXT NOT NULL,
+    PRIMARY KEY (call_id, metric)
+  )`,
+]
+
+const CHILD_TABLES = [
+  "transcript_entries",
+  "tool_calls",
+  "node_transitions",
+  "product_costs",
+] as const
+
+/** Lifecycle stages ordered by freshness. Shared by calls and chats. */
+const STAGE_RANK = { started: 0, ended: 1, analyzed: 2 } as const
+
+// ---------------------------------------------------------------------------
+// Record types (rows as returned by the query helpers)
+// ---------------------------------------------------------------------------
+
+/** A row from the `calls` table with JSON and boolean columns decoded. */
+export interface CallRecord {
+  call_id: string
+  stage: "started" | "ended" | "analyzed"
+  agent_id: string | null
+  agent_name: string | null
+  agent_version: number | null
+  call_type: "phone_call" | "web_call"
+  direction: "inbound" | "outbound" | null
+  from_number: string | null
+  to_number: string | null
+  call_status: string
+  start_timestamp: number | null
+  end_timestamp: number | null
+  duration_ms: number | null
+  disconnection_reason: string | null
+  recording_url: string | null
+  transcript: string | null
+  call_summary: string | null
+  call_successful: boolean | null
+  user_sentiment: string | null
+  in_voicemail: boolean | null
+  combined_cost: number | null
+  metadata: unknown
+  dynamic_variables: unknown
+  collected_dynamic_variables: unknown
+  custom_analysis_data: unknown
+}
+
+/** A row from the `chats` table with JSON and boolean columns decoded. */
+export interface ChatRecord {
+  chat_id: string
+  stage: "ended" | "analyzed"
+  agent_id: string | null
+  agent_version: number | null
+  chat_type: string | null
+  chat_status: string
+  start_timestamp: number | null
+  end_timestamp: number | null
+  transcript: string | null
+  chat_summary: string | null
+  chat_successful: boolean | null
+  user_sentiment: string | null
+  combined_cost: number | null
+  metadata: unknown
+  dynamic_variables: unknown
+  collected_dynamic_variables: unknown
+  custom_analysis_data: unknown
+}
+
+/** A transcript entry. `data` holds the full original entry. */
+export interface TranscriptEntryRecord {
+  conversation_id: string
+  position: number
+  role: string
+  content: string | null
+  /** First word start time in seconds (calls only). */
+  start_sec: number | null
+  /** Last word end time in seconds (calls only). */
+  end_sec: number | null
+  /** Millisecond epoch (chats only). */
+  created_timestamp: number | null
+  data: unknown
+}
+
+/** A tool invocation paired with its result (if one was recorded). */
+export interface ToolCallRecord {
+  conversation_id: string
+  tool_call_id: string
+  name: string
+  /** Stringified JSON arguments, as sent by Retell. */
+  arguments: string
+  result: string | null
+  successful: boolean | null
+  invocation_position: number
+  result_position: number | null
+}
+
+/** A node transition (conversation flow agents). */
+export interface NodeTransitionRecord {
+  conversation_id: string
+  position: number
+  former_node_id: string | null
+  former_node_name: string | null
+  new_node_id: string | null
+  new_node_name: string | null
+  /** Seconds into the call (calls only). */
+  time_sec: number | null
+  /** Millisecond epoch (chats only). */
+  created_timestamp: number | null
+  global_transition: boolean | null
+}
+
+/** A single product's cost for a call or chat. */
+export interface ProductCostRecord {
+  conversation_id: string
+  product: string
+  unit_price: number | null
+  cost: number
+}
+
+/** A latency sub-metric for a call. */
+export interface LatencyMetricRecord {
+  call_id: string
+  metric: string
+  p50: number
+  p90: number
+  p95: number
+  p99: number
+  min: number
+  max: number
+  num: number
+  values: number[]
+}
+
+/** Filters for `listCalls` / `listChats`. All optional. */
+export interface ConversationFilter {
+  agentId?: string
+  stage?: "started" | "ended" | "analyzed"
+  /** Only conversations starting at or after this time. */
+  since?: Date
+  /** Only conversations starting before this time. */
+  until?: Date
+  /** Maximum rows to return. Must be a non-negative integer. */
+  limit?: number
+}
+
+// ---------------------------------------------------------------------------
+// Encoding helpers
+// ---------------------------------------------------------------------------
+
+/** Loosest call/chat shapes, used to read fields from any custom schema. */
+type LooseCall = Partial<z.output<typeof CallSchemas.analyzed>> &
+  z.output<typeof CallSchemas.base>
+type LooseChat = Partial<z.output<typeof ChatSchemas.analyzed>> &
+  z.output<typeof ChatSchemas.ended>
+
+type TranscriptEntry = z.infer<typeof TranscriptEntrySchema>
+type ChatMessageEntry = z.infer<typeof ChatMessageEntrySchema>
+
+const json = (value: unknown) =>
+  value === undefined ? null : JSON.stringify(value)
+const bool = (value: boolean | undefined | null) =>
+  value == null ? null : value ? 1 : 0
+const ms = (value: Date | null | undefined) => value?.getTime() ?? null
+const opt = <T>(value: T | undefined) => value ?? null
+
+/** A row as SQLite returns it, with `K` still encoded (JSON text, 0/1). */
+type EncodedRow<T, K extends keyof T> = Omit<T, K> & { [P in K]: unknown }
+
+const decodeJson = (value: unknown) =>
+  typeof value === "string" ? (JSON.parse(value) as unknown) : null
+const decodeBool = (value: unknown) => (value == null ? null : value === 1)
+
+/** Builds an upsert that only overwrites rows with an equal or lower stage. */
+function upsertSql(table: string, key: string, columns: string[]) {
+  const updates = columns
+    .filter((c) => c !== key)
+    .map((c) => `${c} = excluded.${c}`)
+    .join(", ")
+  return `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})
+    ON CONFLICT(${key}) DO UPDATE SET ${updates}
+    WHERE excluded.stage_rank >= ${table}.stage_rank`
+}
+
+function insertSql(table: string, columns: string[]) {
+  return `INSERT INTO ${table} (${columns.map((c) => `"${c}"`).join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates a local SQLite warehouse for parsed calls and chats. Calls and chats
+ * are normalized into `calls`, `chats`, `transcript_entries`, `tool_calls`,
+ * `node_transitions`, `product_costs`, and `latency_metrics` tables (created if
+ * missing).
+ *
+ * Upserts take a lifecycle snapshot (`{ stage, call }` or `{ stage, chat }`,
+ * e.g. from `createLifecycleReducers()`) and never downgrade a stored row: a
+ * stale `ended` snapshot won't overwrite an `analyzed` one. Child rows are
+ * replaced atomically with the parent.
+ *
+ * ```ts
+ * import { Database } from "bun:sqlite"
+ * const warehouse = createWarehouse(new Database("calls.db"))
+ * warehouse.upsertCall({ stage: "analyzed", call })
+ * warehouse.listCalls({
+ *   agentId: "agent_123",
+ *   since: new Date("2025-01-01"),
+ * })
+ * ```
+ */
+export function createWarehouse(db: SqliteDatabaseLike) {
+  for (const statement of SCHEMA) db.run(statement)
+
+  const callColumns = [
+    "call_id",
+    "stage",
+    "stage_rank",
+    "agent_id",
+    "agent_name",
+    "agent_version",
+    "call_type",
+    "direction",
+    "from_number",
+    "to_number",
+    "call_status",
+    "start_timestamp",
+    "end_timestamp",
+    "duration_ms",
+    "disconnection_reason",
+    "recording_url",
+    "transcript",
+    "call_summary",
+    "call_successful",
+    "user_sentiment",
+    "in_voicemail",
+    "combined_cost",
+    "metadata",
+    "dynamic_variables",
+    "collected_dynamic_variables",
+    "custom_analysis_data",
+  ]
+  const chatColumns = [
+    "chat_id",
+    "stage",
+    "stage_rank",
+    "agent_id",
+    "agent_version",
+    "chat_type",
+    "chat_status",
+    "start_timestamp",
+    "end_timestamp",
+    "transcript",
+    "chat_summary",
+    "chat_successful",
+    "user_sentiment",
+    "combined_cost",
+    "metadata",
+    "dynamic_variables",
+    "collected_dynamic_variables",
+    "custom_analysis_data",
+  ]
+  const transcriptColumns = [
+    "conversation_id",
+    "position",
+    "role",
+    "content",
+    "start_sec",
+    "end_sec",
+    "created_timestamp",
+    "data",
+  ]
+  const toolCallColumns = [
+    "conversation_id",
+    "tool_call_id",
+    "name",
+    "arguments",
+    "result",
+    "successful",
+    "invocation_position",
+    "result_position",
+  ]
+  const nodeTransitionColumns = [
+    "conversation_id",
+    "position",
+    "former_node_id",
+    "former_node_name",
+    "new_node_id",
+    "new_node_name",
+    "time_sec",
+    "created_timestamp",
+    "global_transition",
+  ]
+  const latencyColumns = [
+    "call_id",
+    "metric",
+    "p50",
+    "p90",
+    "p95",
+    "p99",
+    "min",
+    "max",
+    "num",
+    "values",
+  ]
+
+  /** Public columns (the internal `stage_rank` is never returned). */
+  const selectColumns = {
+    calls: callColumns.filter((c) => c !== "stage_rank").join(", "),
+    chats: chatColumns.filter((c) => c !== "stage_rank").join(", "),
+  }
+
+  const statements = {
+    upsertCall: db.query(upsertSql("calls", "call_id", callColumns)),
+    upsertChat: db.query(upsertSql("chats", "chat_id", chatColumns)),
+    insertTranscript: db.query(
+      insertSql("transcript_entries", transcriptColumns),
+    ),
+    insertToolCall: db.query(insertSql("tool_calls", toolCallColumns)),
+    insertNodeTransition: db.query(
+      insertSql("node_transitions", nodeTransitionColumns),
+    ),
+    insertProductCost: db.query(
+      insertSql("product_costs", [
+        "conversation_id",
+        "product",
+        "unit_price",
+        "cost",
+      ]),
+    ),
+    insertLatency: db.query(insertSql("latency_metrics", latencyColumns)),
+    deleteChildren: CHILD_TABLES.map((table) =>
+      db.query(`DELETE FROM ${table} WHERE conversation_id = ?`),
+    ),
+    deleteLatency: db.query(`DELETE FROM latency_metrics WHERE call_id = ?`),
+    getCall: db.query(
+      `SELECT ${selectColumns.calls} FROM calls WHERE call_id = ?`,
+    ),
+    getChat: db.query(
+      `SELECT ${selectColumns.chats} FROM chats WHERE chat_id = ?`,
+    ),
+    getTranscript: db.query(
+      `SELECT * FROM transcript_entries WHERE conversation_id = ? ORDER BY position`,
+    ),
+    getToolCalls: db.query(
+      `SELECT * FROM tool_calls WHERE conversation_id = ? ORDER BY invocation_position`,
+    ),
+    getNodeTransitions: db.query(
+      `SELECT * FROM node_transitions WHERE conversation_id = ? ORDER BY position`,
+    ),
+    getProductCosts: db.query(
+      `SELECT * FROM product_costs WHERE conversation_id = ? ORDER BY product`,
+    ),
+    getLatency: db.query(
+      `SELECT * FROM latency_metrics WHERE call_id = ? ORDER BY metric`,
+    ),
+  }
+
+  // -- Child rows ------------------------------------------------------------
+
+  type Entry = { role: string } & Record<string, unknown>
+
+  function writeEntries(
+    conversationId: string,
+    entries: TranscriptEntry[] | ChatMessageEntry[],
+  ) {
+    entries.forEach((typedEntry, position) => {
+      const entry = typedEntry as Entry
+      const words = Array.isArray(entry.words)
+        ? (entry.words as { start: number; end: number }[])
+        : []
+      const content =
+        typeof entry.content === "string"
+          ? entry.content
+          : typeof entry.digit === "string"
+            ? entry.digit
+            : null
+      statements.insertTranscript.run(
+        conversationId,
+        position,
+        entry.role,
+        content,
+        words[0]?.start ?? null,
+        words.at(-1)?.end ?? null,
+        typeof entry.created_timestamp === "number"
+          ? entry.created_timestamp
+          : null,
+        JSON.stringify(entry),
+      )
+
+      if (entry.role === "node_transition") {
+        statements.insertNodeTransition.run(
+          conversationId,
+          position,
+          opt(entry.former_node_id as string | undefined),
+          opt(entry.former_node_name as string | undefined),
+          opt(entry.new_node_id as string | undefined),
+          opt(entry.new_node_name as string | undefined),
+          opt(entry.time_sec as number | undefined),
+          opt(entry.created_timestamp as number | undefined),
+          bool(entry.global_transition as boolean | undefined),
+        )
+      }
+    })
+
+    // Last invocation wins when Retell reuses a `tool_call_id`, which is the
+    // table's primary key.
+    const toolCalls = new Map(
+      pairToolCalls(entries).map((c) => [c.tool_call_id, c]),
+    )
+    for (const toolCall of toolCalls.values()) {
+      const result =
+        toolCall.resultIndex != null
+          ? (entries[toolCall.resultIndex] as Entry)
+          : undefined
+      statements.insertToolCall.run(
+        conversationId,
+        toolCall.tool_call_id,
+        toolCall.name,
+        toolCall.arguments,
+        opt(toolCall.result),
+        bool(result?.successful as boolean | undefined),
+        toolCall.invocationIndex,
+        opt(toolCall.resultIndex),
+      )
+    }
+  }
+
+  function writeCosts(
+    conversationId: string,
+    costs: { product: string; unit_price?: number; cost: number }[] = [],
+  ) {
+    for (const cost of costs) {
+      statements.insertProductCost.run(
+        conversationId,
+        cost.product,
+        opt(cost.unit_price),
+        cost.cost,
+      )
+    }
+  }
+
+  function clearChildren(conversationId: string) {
+    for (const statement of statements.deleteChildren) {
+      statement.run(conversationId)
+    }
+  }
+
+  // -- Upserts ---------------------------------------------------------------
+
+  /**
+   * Inserts or updates a call from a lifecycle snapshot. Returns `false` if the
+   * stored row is already at a later stage (nothing was written).
+   */
+  function upsertCall<TCall extends CallSchemasLike>(
+    snapshot: CallSnapshot<TCall>,
+  ) {
+    const call = snapshot.call as LooseCall
+    const phone = call.call_type === "phone_call" ? call : undefined
+    const analysis = call.call_analysis
+
+    return withTransaction(db, () => {
+      const { changes } = statements.upsertCall.run(
+        call.call_id,
+        snapshot.stage,
+        STAGE_RANK[snapshot.stage],
+        opt(call.agent_id),
+        opt(call.agent_name),
+        opt(call.agent_version),
+        call.call_type,
+        opt(phone?.direction),
+        opt(phone?.from_number),
+        opt(phone?.to_number),
+        call.call_status,
+        ms(call.start_timestamp),
+        ms(call.end_timestamp),
+        opt(call.duration_ms),
+        opt(call.disconnection_reason),
+        opt(call.recording_url),
+        opt(call.transcript),
+        opt(analysis?.call_summary),
+        bool(analysis?.call_successful),
+        opt(analysis?.user_sentiment),
+        bool(analysis?.in_voicemail),
+        opt(call.call_cost?.combined_cost),
+        json(call.metadata),
+        json(call.retell_llm_dynamic_variables),
+        json(call.collected_dynamic_variables),
+        json(analysis?.custom_analysis_data),
+      )
+      if (changes === 0) return false
+
+      clearChildren(call.call_id)
+      statements.deleteLatency.run(call.call_id)
+      writeEntries(call.call_id, call.transcript_with_tool_calls)
+      writeCosts(call.call_id, call.call_cost?.product_costs)
+      for (const [metric, value] of Object.entries(call.latency ?? {})) {
+        if (!value) continue
+        statements.insertLatency.run(
+          call.call_id,
+          metric,
+          value.p50,
+          value.p90,
+          value.p95,
+          value.p99,
+          value.min,
+          value.max,
+          value.num,
+          JSON.stringify(value.values),
+        )
+      }
+      return true
+    })
+  }
+
+  /**
+   * Inserts or updates a chat from a lifecycle snapshot. Returns `false` if the
+   * stored row is already at a later stage (nothing was written).
+   */
+  function upsertChat<TChat extends ChatSchemasLike>(
+    snapshot: ChatSnapshot<TChat>,
+  ) {
+    const chat = snapshot.chat as LooseChat
+    const analysis = chat.chat_analysis
+
+    return withTransaction(db, () => {
+      const { changes } = statements.upsertChat.run(
+        chat.chat_id,
+        snapshot.stage,
+        STAGE_RANK[snapshot.stage],
+        opt(chat.agent_id),
+        opt(chat.version),
+        opt(chat.chat_type),
+        chat.chat_status,
+        ms(chat.start_timestamp),
+        ms(chat.end_timestamp),
+        opt(chat.transcript),
+        opt(analysis?.chat_summary),
+        bool(analysis?.chat_successful),
+        opt(analysis?.user_sentiment),
+        opt(chat.chat_cost?.combined_cost),
+        json(chat.metadata),
+        json(chat.retell_llm_dynamic_variables),
+        json(chat.collected_dynamic_variables),
+        json(analysis?.custom_analysis_data),
+      )
+      if (changes === 0) return false
+
+      clearChildren(chat.chat_id)
+      writeEntries(chat.chat_id, chat.message_with_tool_calls ?? [])
+      writeCosts(chat.chat_id, chat.chat_cost?.product_costs)
+      return true
+    })
+  }
+
+  // -- Queries ---------------------------------------------------------------
+
+  function decodeCall(row: unknown): CallRecord {
+    const r = row as EncodedRow<
+      CallRecord,
+      | "call_successful"
+      | "in_voicemail"
+      | "metadata"
+      | "dynamic_variables"
+      | "collected_dynamic_variables"
+      | "custom_analysis_data"
+    >
+    return {
+      ...r,
+      call_successful: decodeBool(r.call_successful),
+      in_voicemail: decodeBool(r.in_voicemail),
+      metadata: decodeJson(r.metadata),
+      dynamic_variables: decodeJson(r.dynamic_variables),
+      collected_dynamic_variables: decodeJson(r.collected_dynamic_variables),
+      custom_analysis_data: decodeJson(r.custom_analysis_data),
+    }
+  }
+
+  function decodeChat(row: unknown): ChatRecord {
+    const r = row as EncodedRow<
+      ChatRecord,
+      | "chat_successful"
+      | "metadata"
+      | "dynamic_variables"
+      | "collected_dynamic_variables"
+      | "custom_analysis_data"
+    >
+    return {
+      ...r,
+      chat_successful: decodeBool(r.chat_successful),
+      metadata: decodeJson(r.metadata),
+      dynamic_variables: decodeJson(r.dynamic_variables),
+      collected_dynamic_variables: decodeJson(r.collected_dynamic_variables),
+      custom_analysis_data: decodeJson(r.custom_analysis_data),
+    }
+  }
+
+  function listConversations(
+    table: "calls" | "chats",
+    filter: ConversationFilter,
+  ) {
+    const where: string[] = []
+    const params: SqlValue[] = []
+    if (filter.agentId != null) {
+      where.push("agent_id = ?")
+      params.push(filter.agentId)
+    }
+    if (filter.stage != null) {
+      where.push("stage = ?")
+      params.push(filter.stage)
+    }
+    if (filter.since != null) {
+      where.push("start_timestamp >= ?")
+      params.push(filter.since.getTime())
+    }
+    if (filter.until != null) {
+      where.push("start_timestamp < ?")
+      params.push(filter.until.getTime())
+    }
+    const whereSql = where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""
+    let limitSql = ""
+    if (filter.limit != null) {
+      if (!Number.isSafeInteger(filter.limit) || filter.limit < 0) {
+        throw new Error(
+          `limit must be a non-negative integer, got ${filter.limit}`,
+        )
+      }
+      limitSql = "LIMIT ?"
+      params.push(filter.limit)
+    }
+    return db
+      .query(
+        `SELECT ${selectColumns[table]} FROM ${table} ${whereSql} ORDER BY start_timestamp DESC ${limitSql}`,
+      )
+      .all(...params)
+  }
+
+  return {
+    upsertCall,
+    upsertChat,
+
+    /** Fetches a single call by id. */
+    getCall(callId: string) {
+      const row = statements.getCall.get(callId)
+      return row ? decodeCall(row) : undefined
+    },
+
+    /** Lists calls, newest first. */
+    listCalls(filter: ConversationFilter = {}) {
+      return listConversations("calls", filter).map(decodeCall)
+    },
+
+    /** Fetches a single chat by id. */
+    getChat(chatId: string) {
+      const row = statements.getChat.get(chatId)
+      return row ? decodeChat(row) : undefined
+    },
+
+    /** Lists chats, newest first. */
+    listChats(filter: ConversationFilter = {}) {
+      return listConversations("chats", filter).map(decodeChat)
+    },
+
+    /** Transcript entries for a call or chat, in order. */
+    getTranscript(conversationId: string) {
+      return statements.getTranscript.all(conversationId).map((row) => {
+        const r = row as Record<string, unknown>
+        return { ...r, data: decodeJson(r.data) } as TranscriptEntryRecord
+      })
+    },
+
+    /** Tool calls for a call or chat, in invocation order. */
+    getToolCalls(conversationId: string) {
+      return statements.getToolCalls.all(conversationId).map((row) => {
+        const r = row as Record<string, unknown>
+        return {
+          ...r,
+          successful: decodeBool(r.successful),
+        } as ToolCallRecord
+      })
+    },
+
+    /** Node transitions for a call or chat, in order. */
+    getNodeTransitions(conversationId: string) {
+      return statements.getNodeTransitions.all(conversationId).map((row) => {
+        const r = row as Record<string, unknown>
+        return {
+          ...r,
+          global_transition: decodeBool(r.global_transition),
+        } as NodeTransitionRecord
+      })
+    },
+
+    /** Per-product costs for a call or chat. */
+    getProductCosts(conversationId: string) {
+      return statements.getProductCosts.all(
+        conversationId,
+      ) as ProductCostRecord[]
+    },
+
+    /** Latency sub-metrics for a call. */
+    getLatency(callId: string) {
+      return statements.getLatency.all(callId).map((row) => {
+        const r = row as Record<string, unknown>
+        return {
+          ...r,
+          values: decodeJson(r.values) ?? [],
+        } as LatencyMetricRecord
+      })
+    },
+  }
+}
+
+/** Return type of `createWarehouse()`. */
+export type Warehouse = ReturnType<typeof createWarehouse>
@@ -0,0 +1,140 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import { WebhookSchemas } from "./webhook"
+import {
+  type WebhookEventHandlers,
+  type WebhookHandlerOptions,
+  type WebhookSchemasLike,
+  createWebhookHandler,
+} from "./webhook-handler"
+
+// ---------------------------------------------------------------------------
+// Adapters
+//
+// Every adapter delegates to `createWebhookHandler`, so signature checks,
+// status codes, and `onError`/`onUnknown` reporting behave identically across
+// stacks. Adapters only translate the framework's request/response types.
+// ---------------------------------------------------------------------------
+
+type AdapterOptions<TSchemas extends WebhookSchemasLike> =
+  WebhookHandlerOptions<TSchemas> & WebhookEventHandlers<TSchemas>
+
+/**
+ * Fetch API adapter for `Bun.serve`, Deno, Cloudflare Workers, Next.js route
+ * handlers, etc. Equivalent to `createWebhookHandler`.
+ *
+ * ```ts
+ * Bun.serve({ routes: { "/webhook": createFetchWebhookHandler(options) } })
+ * ```
+ */
+export function createFetchWebhookHandler<
+  TSchemas extends WebhookSchemasLike = typeof WebhookSchemas,
+>(options: AdapterOptions<TSchemas>) {
+  return createWebhookHandler(options)
+}
+
+/** Minimal structural type for a Hono `Context` (avoids a hono dependency). */
+interface HonoContextLike {
+  req: { raw: Request }
+}
+
+/**
+ * Hono adapter. Reads the raw body from `c.req.raw`, so don't consume the body
+ * in earlier middleware.
+ *
+ * ```ts
+ * app.post("/webhook", createHonoWebhookHandler(options))
+ * ```
+ */
+export function createHonoWebhookHandler<
+  TSchemas extends WebhookSchemasLike = typeof WebhookSchemas,
+>(options: AdapterOptions<TSchemas>) {
+  const handle = createWebhookHandler(options)
+  return (c: HonoContextLike) => handle(c.req.raw)
+}
+
+/**
+ * Node request, optionally with a body already captured by middleware (e.g.
+ * Express `express.raw()` or a `verify` callback that stores `rawBody`).
+ */
+type NodeRequestLike = IncomingMessage & { body?: unknown; rawBody?: unknown }
+
+/**
+ * Node `http` / Express adapter. Captures the raw body from the request stream,
+ * or from `req.rawBody` / a `Buffer` or string `req.body` if middleware already
+ * consumed it. Mount it before `express.json()` (or use `express.raw()`) —
+ * re-serialized JSON can't be signature-checked.
+ *
+ * ```ts
+ * app.post("/webhook", createNodeWebhookHandler(options))
+ * http.createServer(createNodeWebhookHandler(options))
+ * ```
+ */
+export function createNodeWebhookHandler<
+  TSchemas extends WebhookSchemasLike = typeof WebhookSchemas,
+>(options: AdapterOptions<TSchemas>) {
+  const handle = createWebhookHandler(options)
+
+  const respond = async (req: NodeRequestLike, res: ServerResponse) => {
+    const url = `http://${req.headers.host ?? "localhost"}${req.url ?? "/"}`
+    const init = {
+      method: req.method ?? "POST",
+      headers: toHeaders(req.headers),
+    }
+
+    let response: Response
+    try {
+      const hasBody = init.method !== "GET" && init.method !== "HEAD"
+      const body = hasBody ? await readRawBody(req) : undefined
+      response = await handle(new Request(url, { ...init, body }))
+    } catch (error) {
+      // Body capture failed before the shared handler could report it
+      await options.onError?.(error, new Request(url, init))
+      response = new Response("Webhook handler failed", { status: 500 })
+    }
+
+    res.statusCode = response.status
+    response.headers.forEach((value, key) => res.setHeader(key, value))
+    res.end(Buffer.from(await response.arrayBuffer()))
+  }
+
+  // Node ignores the promise a listener returns, so a rejection would leave
+  // the request hanging until Retell times out.
+  return async (req: NodeRequestLike, res: ServerResponse) => {
+    try {
+      await respond(req, res)
+    } catch {
+      if (res.writableEnded) return
+      if (!res.headersSent) res.statusCode = 500
+      res.end("Webhook handler failed")
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Resolves the raw request body, preferring anything middleware captured. */
+async function readRawBody(req: NodeRequestLike) {
+  for (const captured of [req.rawBody, req.body]) {
+    if (typeof captured === "string") return captured
+    if (captured instanceof Uint8Array) {
+      return Buffer.from(captured).toString("utf-8")
+    }
+  }
+
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk)
+  }
+  return Buffer.concat(chunks).toString("utf-8")
+}
+
+function toHeaders(incoming: IncomingMessage["headers"]) {
+  const headers = new Headers()
+  for (const [key, value] of Object.entries(incoming)) {
+    if (value == null) continue
+    headers.set(key, Array.isArray(value) ? value.join(", ") : value)
+  }
+  return headers
+}
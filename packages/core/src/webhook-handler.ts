@@ -0,0 +1,199 @@
+import { z } from "zod"
+import { type IdempotencyStore, webhookIdempotencyKey } from "./idempotency"
+import { WebhookSchemas } from "./webhook"
+import {
+  type VerifyWebhookSignatureOptions,
+  verifyWebhookSignature,
+} from "./webhook-signature"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Anything shaped like the return value of `createWebhookSchemas()`. */
+export type WebhookSchemasLike = { event: z.ZodDiscriminatedUnion }
+
+/** Union of all parsed webhook payloads for a set of webhook schemas. */
+export type WebhookPayload<TSchemas extends WebhookSchemasLike> = z.output<
+  TSchemas["event"]
+> & { event: string }
+
+/** Name of a webhook event supported by a set of webhook schemas. */
+export type WebhookEventName<TSchemas extends WebhookSchemasLike> =
+  WebhookPayload<TSchemas>["event"]
+
+/** Parsed payload for a single webhook event. */
+export type WebhookPayloadFor<
+  TSchemas extends WebhookSchemasLike,
+  TEvent extends string,
+> = Extract<WebhookPayload<TSchemas>, { event: TEvent }>
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * Handler for a single webhook event. Return a `Response` to override the
+ * default `204 No Content` acknowledgement.
+ */
+export type WebhookEventHandler<TPayload> = (
+  payload: TPayload,
+  req: Request,
+) => MaybePromise<Response | void>
+
+/** Per-event handlers, keyed by event name. All handlers are optional. */
+export type WebhookEventHandlers<TSchemas extends WebhookSchemasLike> = {
+  [K in WebhookEventName<TSchemas>]?: WebhookEventHandler<
+    WebhookPayloadFor<TSchemas, K>
+  >
+}
+
+export interface WebhookHandlerOptions<
+  TSchemas extends WebhookSchemasLike,
+> extends VerifyWebhookSignatureOptions {
+  /**
+   * Schemas from `createWebhookSchemas()`. Defaults to `WebhookSchemas` (loose
+   * types for custom fields).
+   */
+  schemas?: TSchemas
+  /**
+   * Retell API key used to verify the `x-retell-signature` header. Signature
+   * verification is skipped when omitted.
+   */
+  apiKey?: string
+  /**
+   * Deduplicates retried deliveries by `(event, call_id/chat_id)`. Duplicates
+   * are acknowledged with `204` without calling the handler. If a handler
+   * throws, its key is released so Retell's retry is processed; a failing
+   * `release` is reported to `onError`.
+   */
+  idempotency?: IdempotencyStore
+  /**
+   * Called for events the schemas don't know about (or bodies without an
+   * `event` field) instead of throwing. Receives the parsed JSON body. Defaults
+   * to acknowledging with `204`.
+   */
+  onUnknown?: (body: unknown, req: Request) => MaybePromise<Response | void>
+  /**
+   * Called when a handler throws. The dispatcher still responds with `500` so
+   * Retell retries the delivery, even if `onError` itself throws.
+   */
+  onError?: (error: unknown, req: Request) => MaybePromise<void>
+}
+
+// ---------------------------------------------------------------------------
+// Dispatcher
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates a Fetch-style webhook endpoint that verifies, parses, and dispatches
+ * Retell webhooks to per-event handlers. Each handler receives the precisely
+ * typed payload for its event, including custom metadata and analysis types.
+ *
+ * Responses:
+ *
+ * - `401` — signature missing or invalid (only when `apiKey` is set)
+ * - `400` — body isn't JSON, or a known event fails schema validation
+ * - `204` — handled (or no handler registered, or a duplicate delivery), unless
+ *   the handler returns its own `Response`
+ * - `500` — a handler threw (reported to `onError`)
+ *
+ * ```ts
+ * const handle = createWebhookHandler({
+ *   schemas: webhooks,
+ *   apiKey: process.env.RETELL_API_KEY,
+ *   call_analyzed: async ({ call }) => {
+ *     await saveCall(call.call_id, call.call_analysis.custom_analysis_data)
+ *   },
+ *   onUnknown: (body) => console.warn("Unhandled webhook", body),
+ * })
+ *
+ * Bun.serve({ fetch: handle })
+ * ```
+ */
+export function createWebhookHandler<
+  TSchemas extends WebhookSchemasLike = typeof WebhookSchemas,
+>(
+  options: WebhookHandlerOptions<TSchemas> & WebhookEventHandlers<TSchemas>,
+): (req: Request) => Promise<Response> {
+  const schemas = options.schemas ?? WebhookSchemas
+  const knownEvents = schemas.event._zod.propValues.event ?? new Set()
+  const handlers = options as Record<
+    string,
+    WebhookEventHandler<unknown> | undefined
+  >
+
+  const report = async (error: unknown, req: Request) => {
+    try {
+      await options.onError?.(error, req)
+    } catch {
+      // A failing reporter mustn't turn the 500 into a dropped request.
+    }
+  }
+
+  return async (req) => {
+    const rawBody = await req.text()
+
+    if (options.apiKey != null) {
+      const valid = await verifyWebhookSignature(
+        rawBody,
+        req.headers.get("x-retell-signature"),
+        options.apiKey,
+        options,
+      )
+      if (!valid) return new Response("Invalid signature", { status: 401 })
+    }
+
+    let body: unknown
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return new Response("Invalid JSON", { status: 400 })
+    }
+
+    const eventName = z.looseObject({ event: z.string() }).safeParse(body)
+      .data?.event
+
+    let idempotencyKey: string | undefined
+    try {
+      if (eventName == null || !knownEvents.has(eventName)) {
+        return (await options.onUnknown?.(body, req)) ?? noContent()
+      }
+
+      const parsed = schemas.event.safeParse(body)
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid webhook payload", issues: parsed.error.issues },
+          { status: 400 },
+        )
+      }
+
+      const handler = handlers[eventName]
+      if (!handler) return noContent()
+
+      const { idempotency } = options
+      if (idempotency) {
+        const key = webhookIdempotencyKey(
+          parsed.data as WebhookPayload<TSchemas>,
+        )
+        if (key && !(await idempotency.claim(key))) return noContent()
+        // Set only once claimed, so a throwing `claim` releases nothing.
+        idempotencyKey = key
+      }
+
+      return (await handler(parsed.data, req)) ?? noContent()
+    } catch (error) {
+      if (idempotencyKey) {
+        try {
+          await options.idempotency?.release(idempotencyKey)
+        } catch (releaseError) {
+          await report(releaseError, req)
+        }
+      }
+      await report(error, req)
+      return new Response("Webhook handler failed", { status: 500 })
+    }
+  }
+}
+
+function noContent() {
+  return new Response(null, { status: 204 })
+}
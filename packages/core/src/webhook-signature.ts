@@ -0,0 +1,153 @@
+import type { z } from "zod"
+import { WebhookSchemas } from "./webhook"
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Thrown by `parseVerifiedWebhook` when the signature header is not valid. */
+export class WebhookSignatureError extends Error {
+  override name = "WebhookSignatureError"
+}
+
+// ---------------------------------------------------------------------------
+// Signature verification
+// ---------------------------------------------------------------------------
+
+/** Default allowed clock skew between Retell and the receiving server. */
+export const DEFAULT_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000
+
+export interface VerifyWebhookSignatureOptions {
+  /**
+   * Maximum age (and future skew) of the signature timestamp in milliseconds.
+   * Pass `Infinity` to disable the check. Defaults to 5 minutes.
+   */
+  toleranceMs?: number
+  /** Current time in milliseconds. Override for testing. */
+  now?: number
+}
+
+/**
+ * Parses an `x-retell-signature` header of the form `v=<timestamp>,d=<hex>`.
+ * Returns null if the header is malformed.
+ */
+export function parseSignatureHeader(header: string) {
+  const match = /^v=(\d+),d=([0-9a-f]+)$/i.exec(header.trim())
+  if (!match) return null
+  return { timestamp: Number(match[1]), digest: match[2]!.toLowerCase() }
+}
+
+/**
+ * Verifies that a webhook payload was signed by Retell. The signature is an
+ * HMAC-SHA256 of `rawBody + timestamp` keyed with your Retell API key, sent in
+ * the `x-retell-signature` header.
+ *
+ * Always pass the raw request body — re-serialized JSON will not match. Digests
+ * are compared in constant time, and signatures older (or further in the
+ * future) than `toleranceMs` are rejected.
+ */
+export async function verifyWebhookSignature(
+  rawBody: string,
+  signatureHeader: string | null | undefined,
+  apiKey: string,
+  {
+    toleranceMs = DEFAULT_SIGNATURE_TOLERANCE_MS,
+    now = Date.now(),
+  }: VerifyWebhookSignatureOptions = {},
+) {
+  if (!signatureHeader) return false
+
+  const parsed = parseSignatureHeader(signatureHeader)
+  if (!parsed) return false
+
+  if (Math.abs(now - parsed.timestamp) > toleranceMs) return false
+
+  const expected = await computeWebhookSignature(
+    rawBody,
+    apiKey,
+    parsed.timestamp,
+  )
+  return timingSafeEqual(expected, parsed.digest)
+}
+
+/**
+ * Computes the hex HMAC-SHA256 digest Retell would send for a body and
+ * timestamp. Useful for signing payloads in tests.
+ */
+export async function computeWebhookSignature(
+  rawBody: string,
+  apiKey: string,
+  timestamp: number,
+) {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(apiKey),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  )
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(rawBody + timestamp),
+  )
+  return Array.from(new Uint8Array(signature), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("")
+}
+
+/** Compares two strings without short-circuiting on the first mismatch. */
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+// ---------------------------------------------------------------------------
+// Verified parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Verifies the signature of a raw webhook body, then parses it with the
+ * discriminated `event` union. Pass the object returned by
+ * `createWebhookSchemas()` to get your custom types; defaults to
+ * `WebhookSchemas`.
+ *
+ * Throws `WebhookSignatureError` if the signature is missing or invalid, a
+ * `SyntaxError` if the signed body isn't JSON, and a `ZodError` if the payload
+ * doesn't match the schema.
+ *
+ * ```ts
+ * const event = await parseVerifiedWebhook(
+ *   await req.text(),
+ *   req.headers.get("x-retell-signature"),
+ *   process.env.RETELL_API_KEY,
+ *   { schemas: webhooks },
+ * )
+ * ```
+ */
+export async function parseVerifiedWebhook<
+  TEvent extends z.ZodType = typeof WebhookSchemas.event,
+>(
+  rawBody: string,
+  signatureHeader: string | null | undefined,
+  apiKey: string,
+  options: VerifyWebhookSignatureOptions & {
+    schemas?: { event: TEvent }
+  } = {},
+): Promise<z.output<TEvent>> {
+  const valid = await verifyWebhookSignature(
+    rawBody,
+    signatureHeader,
+    apiKey,
+    options,
+  )
+  if (!valid) throw new WebhookSignatureError("Invalid webhook signature")
+
+  const schema = options.schemas?.event ?? WebhookSchemas.event
+  return schema.parse(JSON.parse(rawBody)) as z.output<TEvent>
+}
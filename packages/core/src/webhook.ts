@@ -1,6 +1,26 @@
 import { z } from "zod"
 import { CallSchemas } from "./call"
 import { ChatSchemas } from "./chat"
+import { TransferOptionSchema } from "./llm"
+
+// ---------------------------------------------------------------------------
+// Transfer event fields
+// ---------------------------------------------------------------------------
+
+/**
+ * Transfer-specific fields sent alongside `call` on `transfer_*` events. All
+ * optional since Retell only includes what applies to the transfer type.
+ */
+const transferFields = {
+  /** Number or SIP URI the call is being transferred to. */
+  transfer_destination: z.string().nullable().optional(),
+  /** Transfer option in effect (warm/cold, handoff prompts, etc.). */
+  transfer_option: TransferOptionSchema.optional(),
+  /** Coerced to Date from Retell's millisecond epoch timestamp. */
+  transfer_start_timestamp: z.coerce.date().optional(),
+  /** Coerced to Date. Only present once the transfer leg has ended. */
+  transfer_end_timestamp: z.coerce.date().optional(),
+} as const
 
 // ---------------------------------------------------------------------------
 // Factory
@@ -45,6 +65,36 @@ export function createWebhookSchemas<
     call: schemas.call.analyzed,
   })
 
+  /** Sent periodically mid-call with the latest `transcript_with_tool_calls`. */
+  const transcriptUpdated = z.looseObject({
+    event: z.literal("transcript_updated"),
+    call: schemas.call.base,
+  })
+
+  const transferStarted = z.looseObject({
+    event: z.literal("transfer_started"),
+    call: schemas.call.base,
+    ...transferFields,
+  })
+
+  const transferBridged = z.looseObject({
+    event: z.literal("transfer_bridged"),
+    call: schemas.call.base,
+    ...transferFields,
+  })
+
+  const transferCancelled = z.looseObject({
+    event: z.literal("transfer_cancelled"),
+    call: schemas.call.base,
+    ...transferFields,
+  })
+
+  const transferEnded = z.looseObject({
+    event: z.literal("transfer_ended"),
+    call: schemas.call.base,
+    ...transferFields,
+  })
+
   const chatEnded = z.object({
     event: z.literal("chat_ended"),
     chat: schemas.chat.ended,
@@ -60,6 +110,11 @@ export function createWebhookSchemas<
     callStarted,
     callEnded,
     callAnalyzed,
+    transcriptUpdated,
+    transferStarted,
+    transferBridged,
+    transferCancelled,
+    transferEnded,
     chatEnded,
     chatAnalyzed,
   ])
@@ -68,6 +123,11 @@ export function createWebhookSchemas<
     callStarted,
     callEnded,
     callAnalyzed,
+    transcriptUpdated,
+    transferStarted,
+    transferBridged,
+    transferCancelled,
+    transferEnded,
     chatEnded,
     chatAnalyzed,
     event,
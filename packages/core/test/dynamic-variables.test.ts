@@ -0,0 +1,218 @@
+import { describe, test, expect } from "bun:test"
+import {
+  ConversationFlowResponseSchema,
+  LlmResponseSchema,
+  analyzeDynamicVariables,
+  extractDynamicVariables,
+  renderPrompt,
+} from "../src/index"
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const llm = LlmResponseSchema.parse({
+  llm_id: "llm_1",
+  last_modification_timestamp: 0,
+  begin_message: "Hi {{customer_name}}, this is {{agent_name}}.",
+  general_prompt:
+    "Call {{customer_name}} about order {{order_id}}. It is {{current_time_America/New_York}}.",
+  general_tools: [
+    {
+      type: "custom",
+      name: "lookup_order",
+      url: "https://api.example.com/orders/{{ order_id }}",
+      headers: { Authorization: "Bearer {{api_token}}" },
+      response_variables: { order_status: "$.status" },
+    },
+  ],
+  states: [
+    {
+      name: "wrap_up",
+      state_prompt: "Tell {{custmer_name}} the order is {{order_status}}.",
+    },
+  ],
+  default_dynamic_variables: {
+    customer_name: "there",
+    agent_name: "Sam",
+    api_token: "test",
+    legacy_flag: "1",
+  },
+})
+
+// ---------------------------------------------------------------------------
+// Dynamic variables
+// ---------------------------------------------------------------------------
+
+describe("extractDynamicVariables", () => {
+  test("returns distinct trimmed names in order", () => {
+    expect(extractDynamicVariables("{{a}} {{ b }} {{a}} {{}} {c}")).toEqual([
+      "a",
+      "b",
+    ])
+  })
+})
+
+describe("analyzeDynamicVariables", () => {
+  test("lists usages with labelled paths and default status", () => {
+    const { variables } = analyzeDynamicVariables(llm)
+    const byName = Object.fromEntries(variables.map((v) => [v.name, v]))
+
+    expect(byName.customer_name).toMatchObject({
+      usages: ["begin_message", "general_prompt"],
+      hasDefault: true,
+      system: false,
+    })
+    expect(byName.order_id!.usages).toEqual([
+      "general_prompt",
+      "general_tools[lookup_order].url",
+    ])
+    expect(byName.api_token!.usages).toEqual([
+      "general_tools[lookup_order].headers.Authorization",
+    ])
+    expect(byName["current_time_America/New_York"]!.system).toBe(true)
+    expect(byName.order_status!.producedBy).toEqual([
+      "general_tools[lookup_order].response_variables",
+    ])
+  })
+
+  test("flags typos, unused defaults and tool-produced variables", () => {
+    const { issues } = analyzeDynamicVariables(llm)
+    expect(issues.map(({ message: _, ...issue }) => issue)).toEqual([
+      {
+        type: "possible_typo",
+        name: "custmer_name",
+        suggestion: "customer_name",
+      },
+      { type: "unused_default", name: "legacy_flag" },
+      {
+        type: "extracted_only",
+        name: "order_status",
+        producedBy: ["general_tools[lookup_order].response_variables"],
+      },
+    ])
+  })
+
+  test("does not flag variables supplied per call", () => {
+    const { issues } = analyzeDynamicVariables(llm)
+    expect(issues.some((i) => i.name === "order_id")).toBe(false)
+  })
+
+  test("walks flow nodes, components and extraction nodes", () => {
+    const flow = ConversationFlowResponseSchema.parse({
+      conversation_flow_id: "flow_1",
+      version: 1,
+      global_prompt: "You help {{company}} customers.",
+      start_node_id: "extract",
+      nodes: [
+        {
+          id: "extract",
+          name: "Get email",
+          type: "extract_dynamic_variables",
+          variables: [{ type: "string", name: "email", description: "" }],
+        },
+        {
+          id: "confirm",
+          name: "Confirm",
+          type: "conversation",
+          instruction: { type: "prompt", text: "Confirm {{email}}." },
+          edges: [
+            {
+              id: "e1",
+              destination_node_id: "end",
+              transition_condition: {
+                type: "equation",
+                equations: [{ left: "{{plan}}", operator: "exists" }],
+                operator: "&&",
+              },
+            },
+          ],
+        },
+      ],
+      components: [
+        {
+          name: "Billing",
+          nodes: [
+            {
+              id: "b1",
+              name: "Bill",
+              type: "conversation",
+              instruction: { type: "prompt", text: "Charge {{company}}." },
+              edges: [],
+            },
+          ],
+        },
+      ],
+      default_dynamic_variables: { company: "Acme", plan: "basic" },
+    })
+
+    const { variables, issues } = analyzeDynamicVariables(flow)
+    expect(variables.find((v) => v.name === "company")!.usages).toEqual([
+      "global_prompt",
+      "components[Billing].nodes[Bill].instruction.text",
+    ])
+    expect(variables.find((v) => v.name === "plan")!.usages).toEqual([
+      "nodes[Confirm].edges[e1].transition_condition.equations[0].left",
+    ])
+    expect(issues).toEqual([
+      {
+        type: "extracted_only",
+        name: "email",
+        producedBy: ["nodes[Get email]"],
+        message: "{{email}} has no default and is only set by nodes[Get email]",
+      },
+    ])
+  })
+})
+
+describe("renderPrompt", () => {
+  const now = new Date("2024-03-28T23:46:04Z")
+
+  test("prefers supplied variables over defaults", () => {
+    const { text, unresolved } = renderPrompt("Hi {{ name }}, {{plan}} plan", {
+      variables: { name: "Ada" },
+      defaults: { name: "there", plan: "basic" },
+    })
+    expect(text).toBe("Hi Ada, basic plan")
+    expect(unresolved).toEqual([])
+  })
+
+  test("fills in time variables, including per-timezone forms", () => {
+    const { text } = renderPrompt(
+      "{{current_time}} / {{current_time_Europe/London}}",
+      { now },
+    )
+    expect(text).toBe(
+      "Thursday, March 28, 2024 at 4:46 PM PDT / Thursday, March 28, 2024 at 11:46 PM GMT",
+    )
+    expect(
+      renderPrompt("{{current_calendar}}", { now, timeZone: "UTC" }).text.split(
+        "\n",
+      ),
+    ).toHaveLength(15)
+  })
+
+  test("reports and highlights unresolved placeholders", () => {
+    const { text, unresolved } = renderPrompt(
+      "{{user_number}} {{order_id}} {{order_id}} {{current_time_Not/AZone}}",
+      { now, highlight: (placeholder) => `[${placeholder}]` },
+    )
+    expect(text).toBe(
+      "[{{user_number}}] [{{order_id}}] [{{order_id}}] [{{current_time_Not/AZone}}]",
+    )
+    expect(unresolved).toEqual([
+      "user_number",
+      "order_id",
+      "current_time_Not/AZone",
+    ])
+  })
+
+  test("doesn't resolve names inherited from Object.prototype", () => {
+    const { text, unresolved } = renderPrompt("{{constructor}} {{toString}}", {
+      variables: {},
+      defaults: {},
+    })
+    expect(text).toBe("{{constructor}} {{toString}}")
+    expect(unresolved).toEqual(["constructor", "toString"])
+  })
+})
@@ -0,0 +1,727 @@
+import { describe, test, expect } from "bun:test"
+import {
+  ConversationFlowResponseSchema,
+  TranscriptEntrySchema,
+  FlowComponentSchema,
+  FlowEquationSchema,
+  FlowNodeSchema,
+  FlowTransitionConditionSchema,
+  analyzeFlowFunnel,
+  evaluateEquation,
+  evaluateTransitionCondition,
+  pickBranchEdge,
+  renderFunnelMermaid,
+  scriptedChoices,
+  simulateFlow,
+  validateFlowComponent,
+  validateFlowGraph,
+} from "../src/index"
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const prompt = (text: string) => ({ type: "prompt", text })
+
+const flow = ConversationFlowResponseSchema.parse({
+  conversation_flow_id: "flow_1",
+  version: 3,
+  start_node_id: "greet",
+  nodes: [
+    {
+      id: "greet",
+      name: "Greeting",
+      type: "conversation",
+      instruction: prompt("Greet the caller"),
+      edges: [
+        {
+          id: "e_book",
+          destination_node_id: "book",
+          transition_condition: { type: "prompt", prompt: "Wants to book" },
+        },
+      ],
+    },
+    {
+      id: "book",
+      name: "Booking",
+      type: "conversation",
+      instruction: prompt("Book an appointment"),
+      edges: [],
+      always_edge: { id: "e_done", destination_node_id: "end" },
+    },
+    {
+      id: "human",
+      name: "Human",
+      type: "conversation",
+      instruction: prompt("Offer a human"),
+      edges: [],
+      always_edge: { id: "e_human_done", destination_node_id: "end" },
+      global_node_setting: { condition: "Caller asks for a human" },
+    },
+    { id: "end", name: "End", type: "end" },
+  ],
+})
+
+function transition(from: string, to: string, timeSec: number, global = false) {
+  return {
+    role: "node_transition",
+    former_node_id: from,
+    new_node_id: to,
+    time_sec: timeSec,
+    global_transition: global,
+  }
+}
+
+function flowCall(
+  transitions: ReturnType<typeof transition>[],
+  durationMs: number,
+  reason = "user_hangup",
+) {
+  return {
+    transcript_with_tool_calls:
+      TranscriptEntrySchema.array().parse(transitions),
+    duration_ms: durationMs,
+    disconnection_reason: reason,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Funnel analysis
+// ---------------------------------------------------------------------------
+
+describe("analyzeFlowFunnel", () => {
+  const report = analyzeFlowFunnel(flow, [
+    flowCall(
+      [transition("greet", "book", 5), transition("book", "end", 20)],
+      25_000,
+      "agent_hangup",
+    ),
+    flowCall(
+      [transition("greet", "book", 3), transition("book", "human", 9, true)],
+      30_000,
+    ),
+    flowCall([], 4000),
+  ])
+  const node = (id: string) => report.nodes.find((n) => n.nodeId === id)
+
+  test("counts entries, exits per edge and dwell time", () => {
+    expect(report.calls).toBe(3)
+    expect(node("greet")).toMatchObject({
+      entries: 3,
+      calls: 3,
+      hangUps: 1,
+      hangUpReasons: { user_hangup: 1 },
+      averageDwellMs: 4000,
+      exits: [
+        {
+          destinationNodeId: "book",
+          destinationName: "Booking",
+          edgeId: "e_book",
+          global: false,
+          count: 2,
+        },
+      ],
+    })
+    expect(node("book")?.exits).toMatchObject([
+      { destinationNodeId: "end", edgeId: "e_done", global: false, count: 1 },
+      { destinationNodeId: "human", edgeId: undefined, global: true, count: 1 },
+    ])
+    expect(node("book")?.averageDwellMs).toBe(10_500)
+  })
+
+  test("joins hang-ups with disconnection reasons and counts global fires", () => {
+    expect(node("end")).toMatchObject({
+      hangUps: 1,
+      hangUpReasons: { agent_hangup: 1 },
+    })
+    expect(node("human")).toMatchObject({
+      isGlobal: true,
+      globalEntries: 1,
+      hangUps: 1,
+      averageDwellMs: 21_000,
+    })
+    expect(report.globalNodeFires).toEqual([
+      { nodeId: "human", name: "Human", count: 1 },
+    ])
+  })
+
+  test("renders a Mermaid flowchart", () => {
+    const mermaid = renderFunnelMermaid(report)
+    expect(mermaid.split("\n")).toEqual(
+      expect.arrayContaining([
+        "flowchart TD",
+        '  n0["Greeting<br/>3 in, 1 hung up, avg 4.0s"]',
+        "  n0 -->|2| n1",
+        "  n1 -.->|1| n2",
+      ]),
+    )
+  })
+})
+
+describe("validateFlowGraph", () => {
+  test("accepts a well-formed flow", () => {
+    expect(validateFlowGraph(flow)).toEqual([])
+  })
+
+  test("reports broken edges, dead ends and bad references by node name", () => {
+    const broken = ConversationFlowResponseSchema.parse({
+      conversation_flow_id: "flow_2",
+      version: 1,
+      start_node_id: "greet",
+      tools: [
+        {
+          type: "custom",
+          name: "lookup",
+          tool_id: "tool_lookup",
+          url: "https://api.example.com/lookup",
+        },
+      ],
+      nodes: [
+        {
+          id: "greet",
+          name: "Greeting",
+          type: "conversation",
+          instruction: prompt("Greet"),
+          edges: [{ id: "e1", destination_node_id: "gone" }],
+          always_edge: { id: "e2", destination_node_id: "route" },
+        },
+        {
+          id: "route",
+          name: "Route",
+          type: "branch",
+          edges: [
+            { id: "e3", destination_node_id: "lookup" },
+            { id: "e4", destination_node_id: "sub" },
+          ],
+          else_edge: { id: "e5" },
+        },
+        {
+          id: "lookup",
+          name: "Lookup",
+          type: "function",
+          tool_id: "tool_missing",
+          tool_type: "local",
+          wait_for_result: true,
+          edges: [],
+          else_edge: { id: "e6", destination_node_id: "stuck" },
+        },
+        {
+          id: "sub",
+          name: "Sub",
+          type: "component",
+          component_id: "comp_missing",
+          component_type: "local",
+          edges: [],
+        },
+        {
+          id: "stuck",
+          name: "Stuck",
+          type: "conversation",
+          instruction: prompt("Wait"),
+          edges: [{ id: "e7" }],
+        },
+        { id: "orphan", name: "Orphan", type: "end" },
+      ],
+    })
+
+    expect(validateFlowGraph(broken).map((i) => [i.type, i.message])).toEqual([
+      ["dangling_edge", 'Node "Greeting" has edge "e1" to missing node "gone"'],
+      ["missing_else_edge", 'Node "Route" has no else edge'],
+      ["unknown_tool", 'Node "Lookup" calls unknown tool "tool_missing"'],
+      [
+        "unknown_component",
+        'Node "Sub" references unknown local component "comp_missing"',
+      ],
+      ["dead_end", 'Node "Stuck" has no exit and is not an end node'],
+      [
+        "unreachable_node",
+        'Node "Orphan" is unreachable from start node "Greeting"',
+      ],
+    ])
+  })
+
+  test("checks shared component references only when ids are given", () => {
+    const withShared = ConversationFlowResponseSchema.parse({
+      conversation_flow_id: "flow_3",
+      version: 1,
+      start_node_id: "sub",
+      nodes: [
+        {
+          id: "sub",
+          name: "Sub",
+          type: "component",
+          component_id: "shared_1",
+          component_type: "shared",
+          edges: [],
+        },
+      ],
+    })
+    expect(validateFlowGraph(withShared)).toEqual([])
+    expect(
+      validateFlowGraph(withShared, { sharedComponentIds: ["shared_2"] }),
+    ).toHaveLength(1)
+  })
+
+  test("validates embedded and standalone components", () => {
+    const component = FlowComponentSchema.parse({
+      name: "Billing",
+      start_node_id: "missing",
+      nodes: [{ id: "done", name: "Done", type: "end" }],
+    })
+    const withComponent = { ...flow, components: [component] }
+
+    expect(validateFlowGraph(withComponent)).toEqual([
+      {
+        type: "missing_start_node",
+        component: "Billing",
+        nodeId: undefined,
+        nodeName: undefined,
+        message:
+          'Component "Billing" has start_node_id "missing", which is not a node',
+      },
+    ])
+    expect(validateFlowComponent(component)[0]!.message).toBe(
+      'Component "Billing" has start_node_id "missing", which is not a node',
+    )
+  })
+
+  test("skips local component references in a standalone component", () => {
+    const component = FlowComponentSchema.parse({
+      name: "Billing",
+      start_node_id: "inner",
+      nodes: [
+        {
+          id: "inner",
+          name: "Inner",
+          type: "component",
+          component_type: "local",
+          component_id: "comp_inner",
+          edges: [{ id: "e_shared", destination_node_id: "shared" }],
+        },
+        {
+          id: "shared",
+          name: "Shared",
+          type: "component",
+          component_type: "shared",
+          component_id: "shared_gone",
+          edges: [],
+        },
+      ],
+    })
+
+    expect(validateFlowComponent(component)).toEqual([])
+    expect(
+      validateFlowComponent(component, {
+        sharedComponentIds: ["shared_1"],
+      }).map((i) => [i.type, i.nodeId]),
+    ).toEqual([["unknown_component", "shared"]])
+  })
+  test("follows the edges of SMS, extraction, MCP and agent swap nodes", () => {
+    const newer = ConversationFlowResponseSchema.parse({
+      conversation_flow_id: "flow_4",
+      version: 1,
+      start_node_id: "extract",
+      nodes: [
+        {
+          id: "extract",
+          name: "Extract",
+          type: "extract_dynamic_variables",
+          variables: [
+            { type: "string", name: "email", description: "Caller's email" },
+          ],
+          edges: [],
+          else_edge: { id: "e_sms", destination_node_id: "sms" },
+        },
+        {
+          id: "sms",
+          name: "Send link",
+          type: "sms",
+          instruction: { type: "static_text", text: "Pay at {{link}}" },
+          success_edge: { id: "e_sent", destination_node_id: "mcp" },
+          failed_edge: { id: "e_failed", destination_node_id: "gone" },
+        },
+        {
+          id: "mcp",
+          name: "Lookup",
+          type: "mcp",
+          mcp_id: "mcp_1",
+          mcp_tool_name: "find_order",
+          edges: [],
+          else_edge: { id: "e_swap", destination_node_id: "swap" },
+        },
+        { id: "swap", name: "Swap", type: "agent_swap", agent_id: "agent_2" },
+        {
+          id: "digits",
+          name: "Digits",
+          type: "press_digit",
+          instruction: prompt("Press 1"),
+        },
+      ],
+    })
+
+    expect(validateFlowGraph(newer).map((i) => [i.type, i.nodeName])).toEqual([
+      ["dangling_edge", "Send link"],
+      ["dead_end", "Digits"],
+      ["unreachable_node", "Digits"],
+    ])
+  })
+})
+
+describe("evaluateEquation", () => {
+  const vars = { age: "42", plan: "Pro Plus", empty: "", code: "007" }
+  const check = (left: string, operator: string, right?: string) =>
+    evaluateEquation(FlowEquationSchema.parse({ left, operator, right }), vars)
+
+  test("compares numerically when both sides are numbers", () => {
+    expect(check("{{age}}", "==", "42.0")).toBe(true)
+    expect(check("{{code}}", "==", "7")).toBe(true)
+    expect(check("{{age}}", ">", "41")).toBe(true)
+    expect(check("{{age}}", ">=", "42")).toBe(true)
+    expect(check("{{age}}", "<", "42")).toBe(false)
+    expect(check("{{age}}", "<=", "42")).toBe(true)
+    expect(check("{{age}}", "!=", "43")).toBe(true)
+  })
+
+  test("compares strings exactly and orders only numbers", () => {
+    expect(check("{{plan}}", "==", "Pro Plus")).toBe(true)
+    expect(check("{{plan}}", "==", "pro plus")).toBe(false)
+    expect(check("{{plan}}", "!=", "Basic")).toBe(true)
+    expect(check("{{plan}}", ">", "1")).toBe(false)
+    expect(check("{{empty}}", "<", "1")).toBe(false)
+  })
+
+  test("checks substrings case-sensitively", () => {
+    expect(check("{{plan}}", "contains", "Plus")).toBe(true)
+    expect(check("{{plan}}", "contains", "plus")).toBe(false)
+    expect(check("{{plan}}", "not_contains", "Basic")).toBe(true)
+  })
+
+  test("checks existence, counting empty strings as set", () => {
+    expect(check("{{empty}}", "exists")).toBe(true)
+    expect(check("{{missing}}", "exists")).toBe(false)
+    expect(check("missing", "not_exist")).toBe(true)
+    expect(check("age", "exists")).toBe(true)
+    expect(check("constructor", "exists")).toBe(false)
+    expect(check("{{toString}}", "exists")).toBe(false)
+  })
+
+  test("is false for comparisons against missing variables", () => {
+    expect(check("{{missing}}", "!=", "x")).toBe(false)
+    expect(check("{{missing}}", "not_contains", "x")).toBe(false)
+    expect(check("{{age}}", "==", "{{missing}}")).toBe(false)
+  })
+})
+
+describe("evaluateTransitionCondition", () => {
+  const equations = [
+    { left: "{{plan}}", operator: "==", right: "pro" },
+    { left: "{{seats}}", operator: ">", right: "10" },
+  ]
+
+  test("joins equations with && by default, or ||", () => {
+    const vars = { plan: "pro", seats: "5" }
+    expect(
+      evaluateTransitionCondition(
+        FlowTransitionConditionSchema.parse({ type: "equation", equations }),
+        vars,
+      ),
+    ).toBe(false)
+    expect(
+      evaluateTransitionCondition(
+        FlowTransitionConditionSchema.parse({
+          type: "equation",
+          equations,
+          operator: "||",
+        }),
+        vars,
+      ),
+    ).toBe(true)
+  })
+
+  test("throws for prompt conditions", () => {
+    expect(() =>
+      evaluateTransitionCondition({ type: "prompt", prompt: "Yes" }, {}),
+    ).toThrow("Cannot evaluate a prompt condition locally")
+  })
+})
+
+describe("pickBranchEdge", () => {
+  const equation = (left: string, operator: string, right?: string) => ({
+    type: "equation",
+    equations: [{ left, operator, right }],
+  })
+  const branch = FlowNodeSchema.parse({
+    id: "route",
+    name: "Route",
+    type: "branch",
+    edges: [
+      {
+        id: "vip",
+        destination_node_id: "vip",
+        transition_condition: equation("{{tier}}", "==", "vip"),
+      },
+      {
+        id: "known",
+        destination_node_id: "known",
+        transition_condition: equation("{{customer_id}}", "exists"),
+      },
+    ],
+    else_edge: { id: "else", destination_node_id: "signup" },
+  })
+  if (branch.type !== "branch") throw new Error("expected a branch node")
+
+  test("takes the first edge whose condition holds", () => {
+    expect(pickBranchEdge(branch, { tier: "vip", customer_id: "c1" })?.id).toBe(
+      "vip",
+    )
+    expect(pickBranchEdge(branch, { customer_id: "c1" })?.id).toBe("known")
+  })
+
+  test("falls back to the else edge", () => {
+    expect(pickBranchEdge(branch, {})?.id).toBe("else")
+  })
+
+  test("resolves prompt edges through the callback", () => {
+    const withPrompt = {
+      edges: [
+        {
+          id: "angry",
+          transition_condition: { type: "prompt" as const, prompt: "Angry" },
+        },
+      ],
+      else_edge: { id: "else" },
+    }
+    expect(() => pickBranchEdge(withPrompt, {})).toThrow(
+      'Edge "angry" has a prompt condition; pass resolvePrompt',
+    )
+    expect(
+      pickBranchEdge(withPrompt, {}, { resolvePrompt: () => true })?.id,
+    ).toBe("angry")
+  })
+})
+
+describe("simulateFlow", () => {
+  const equation = (left: string, operator: string, right?: string) => ({
+    type: "equation",
+    equations: [{ left, operator, right }],
+  })
+  const promptEdge = (id: string, to: string, text: string) => ({
+    id,
+    destination_node_id: to,
+    transition_condition: { type: "prompt", prompt: text },
+  })
+  const booking = ConversationFlowResponseSchema.parse({
+    conversation_flow_id: "flow_sim",
+    version: 1,
+    start_node_id: "route",
+    default_dynamic_variables: { plan: "basic" },
+    tools: [
+      {
+        type: "custom",
+        name: "lookup_customer",
+        tool_id: "tool_lookup",
+        url: "https://api.example.com/customers",
+        response_variables: { tier: "$.customer.tier" },
+      },
+    ],
+    nodes: [
+      {
+        id: "route",
+        name: "Route",
+        type: "branch",
+        edges: [
+          {
+            id: "e_known",
+            destination_node_id: "lookup",
+            transition_condition: equation("{{customer_id}}", "exists"),
+          },
+        ],
+        else_edge: { id: "e_new", destination_node_id: "greet" },
+      },
+      {
+        id: "lookup",
+        name: "Lookup",
+        type: "function",
+        tool_id: "tool_lookup",
+        tool_type: "local",
+        wait_for_result: true,
+        edges: [
+          {
+            id: "e_vip",
+            destination_node_id: "end",
+            transition_condition: equation("{{tier}}", "==", "vip"),
+          },
+        ],
+        else_edge: { id: "e_regular", destination_node_id: "greet" },
+      },
+      {
+        id: "greet",
+        name: "Greeting",
+        type: "conversation",
+        instruction: prompt("Greet"),
+        edges: [
+          promptEdge("e_book", "book", "Wants to book"),
+          promptEdge("e_bye", "end", "Wants to leave"),
+        ],
+      },
+      {
+        id: "book",
+        name: "Booking",
+        type: "conversation",
+        instruction: prompt("Book"),
+        edges: [],
+        always_edge: { id: "e_done", destination_node_id: "end" },
+      },
+      { id: "end", name: "End", type: "end" },
+    ],
+  })
+  const never = () => {
+    throw new Error("unexpected prompt decision")
+  }
+
+  test("follows equation edges and tool mocks", async () => {
+    const result = await simulateFlow(booking, {
+      variables: { customer_id: "c_1" },
+      choosePromptEdge: never,
+      toolMocks: [
+        {
+          tool_name: "lookup_customer",
+          input_match_rule: { type: "any" },
+          output: JSON.stringify({ customer: { tier: "vip" } }),
+        },
+      ],
+    })
+
+    expect(result.outcome).toBe("ended")
+    expect(result.path.map((s) => [s.nodeName, s.via])).toEqual([
+      ["Route", "equation"],
+      ["Lookup", "equation"],
+      ["End", undefined],
+    ])
+    expect(result.path[1]!.toolCall).toEqual({
+      toolName: "lookup_customer",
+      mocked: true,
+      output: '{"customer":{"tier":"vip"}}',
+      successful: true,
+      variables: { tier: "vip" },
+    })
+    expect(result.variables).toEqual({
+      plan: "basic",
+      customer_id: "c_1",
+      tier: "vip",
+    })
+  })
+
+  test("resolves prompt edges from a script", async () => {
+    const result = await simulateFlow(booking, {
+      choosePromptEdge: scriptedChoices(["wants to book"]),
+    })
+    expect(result.path.map((s) => [s.nodeId, s.edge?.id, s.via])).toEqual([
+      ["route", "e_new", "else"],
+      ["greet", "e_book", "prompt"],
+      ["book", "e_done", "always"],
+      ["end", undefined, undefined],
+    ])
+  })
+
+  test("stops when no edge is taken", async () => {
+    const result = await simulateFlow(booking, {
+      choosePromptEdge: scriptedChoices([]),
+    })
+    expect(result.outcome).toBe("stuck")
+    expect(result.path.at(-1)!.nodeName).toBe("Greeting")
+  })
+
+  test("rejects scripted choices that match no edge", async () => {
+    const err = await simulateFlow(booking, {
+      choosePromptEdge: scriptedChoices(["nope"]),
+    }).catch((e: unknown) => e)
+    expect(err).toBeInstanceOf(Error)
+    expect((err as Error).message).toBe(
+      'Scripted choice "nope" matches no prompt edge of node "Greeting"',
+    )
+  })
+
+  test("falls through to else edges without a matching mock", async () => {
+    const result = await simulateFlow(booking, {
+      variables: { customer_id: "c_1" },
+      choosePromptEdge: scriptedChoices(["e_bye"]),
+    })
+    expect(result.path[1]!.toolCall?.mocked).toBe(false)
+    expect(result.path.map((s) => s.nodeName)).toEqual([
+      "Route",
+      "Lookup",
+      "Greeting",
+      "End",
+    ])
+  })
+
+  test("runs MCP tool mocks and stops at agent swaps", async () => {
+    const swap = ConversationFlowResponseSchema.parse({
+      conversation_flow_id: "flow_swap",
+      version: 1,
+      start_node_id: "order",
+      nodes: [
+        {
+          id: "order",
+          name: "Order",
+          type: "mcp",
+          mcp_id: "mcp_1",
+          mcp_tool_name: "find_order",
+          response_variables: { status: "$.status" },
+          edges: [
+            {
+              id: "e_shipped",
+              destination_node_id: "swap",
+              transition_condition: equation("status", "==", "shipped"),
+            },
+          ],
+        },
+        {
+          id: "swap",
+          name: "Support",
+          type: "agent_swap",
+          agent_id: "agent_support",
+        },
+      ],
+    })
+    const result = await simulateFlow(swap, {
+      choosePromptEdge: never,
+      toolMocks: [
+        {
+          tool_name: "find_order",
+          input_match_rule: { type: "any" },
+          output: '{"status":"shipped"}',
+        },
+      ],
+    })
+
+    expect(result.outcome).toBe("transferred")
+    expect(result.path.map((s) => s.nodeName)).toEqual(["Order", "Support"])
+    expect(result.variables).toEqual({ status: "shipped" })
+  })
+
+  test("caps loops at maxSteps", async () => {
+    const loop = ConversationFlowResponseSchema.parse({
+      conversation_flow_id: "flow_loop",
+      version: 1,
+      start_node_id: "a",
+      nodes: [
+        {
+          id: "a",
+          name: "A",
+          type: "conversation",
+          instruction: prompt("A"),
+          edges: [],
+          always_edge: { destination_node_id: "a" },
+        },
+      ],
+    })
+    const result = await simulateFlow(loop, {
+      choosePromptEdge: never,
+      maxSteps: 5,
+    })
+    expect(result.outcome).toBe("max_steps")
+    expect(result.path).toHaveLength(5)
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, test, expect } from "bun:test"
+import { LifecycleReducers, WebhookSchemas } from "../src/index"
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const baseCall = {
+  call_id: "call_1",
+  call_status: "ongoing",
+  call_type: "web_call",
+  access_token: "token",
+  start_timestamp: 1_700_000_000_000,
+}
+
+const endedCall = {
+  ...baseCall,
+  call_status: "ended",
+  end_timestamp: 1_700_000_060_000,
+  duration_ms: 60_000,
+  disconnection_reason: "user_hangup",
+}
+
+const analyzedCall = {
+  ...endedCall,
+  call_analysis: { call_summary: "Booked", call_successful: true },
+}
+
+function callEvent(event: string, call: Record<string, unknown>) {
+  const parsed = WebhookSchemas.event.parse({ event, call })
+  if (!("call" in parsed)) throw new Error("expected a call event")
+  return parsed
+}
+
+const started = callEvent("call_started", baseCall)
+const ended = callEvent("call_ended", endedCall)
+const analyzed = callEvent("call_analyzed", analyzedCall)
+
+const { reduceCall, foldCall, foldChat } = LifecycleReducers
+
+// ---------------------------------------------------------------------------
+// Calls
+// ---------------------------------------------------------------------------
+
+describe("call lifecycle reducer", () => {
+  test("folds events in order", () => {
+    const snapshot = foldCall([started, ended, analyzed])
+    expect(snapshot?.stage).toBe("analyzed")
+    if (snapshot?.stage !== "analyzed") return
+    expect(snapshot.call.call_analysis.call_successful).toBe(true)
+    expect(snapshot.call.duration_ms).toBe(60_000)
+  })
+
+  test("ignores stale events that arrive late", () => {
+    for (const order of [
+      [analyzed, ended, started],
+      [ended, analyzed, started],
+      [started, analyzed, ended],
+    ]) {
+      const snapshot = foldCall(order)
+      expect(snapshot?.stage).toBe("analyzed")
+      expect(snapshot?.call.call_status).toBe("ended")
+    }
+  })
+
+  test("duplicates are idempotent", () => {
+    const once = foldCall([started, ended])
+    const twice = foldCall([started, ended, ended, started])
+    expect(twice).toEqual(once!)
+  })
+
+  test("mid-call updates are not rolled back by a late call_started", () => {
+    const update = callEvent("transcript_updated", {
+      ...baseCall,
+      transcript_with_tool_calls: [{ role: "user", content: "Hi" }],
+    })
+    const snapshot = foldCall([update, started])
+    expect(snapshot?.stage).toBe("started")
+    expect(snapshot?.call.transcript_with_tool_calls).toHaveLength(1)
+  })
+
+  test("returns the same snapshot for stale events", () => {
+    const snapshot = reduceCall(undefined, analyzed)
+    expect(reduceCall(snapshot, started)).toBe(snapshot)
+  })
+
+  test("throws on events for a different call", () => {
+    const other = callEvent("call_ended", { ...endedCall, call_id: "call_2" })
+    expect(() => foldCall([started, other])).toThrow()
+  })
+
+  test("empty sequence yields undefined", () => {
+    expect(foldCall([])).toBeUndefined()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Chats
+// ---------------------------------------------------------------------------
+
+describe("chat lifecycle reducer", () => {
+  const chat = {
+    chat_id: "chat_1",
+    chat_status: "ended",
+    start_timestamp: 1_700_000_000_000,
+  }
+  const chatEnded = WebhookSchemas.chatEnded.parse({
+    event: "chat_ended",
+    chat,
+  })
+  const chatAnalyzed = WebhookSchemas.chatAnalyzed.parse({
+    event: "chat_analyzed",
+    chat: { ...chat, chat_analysis: { chat_summary: "Done" } },
+  })
+
+  test("analyzed wins regardless of order", () => {
+    for (const order of [
+      [chatEnded, chatAnalyzed],
+      [chatAnalyzed, chatEnded],
+    ]) {
+      const snapshot = foldChat(order)
+      expect(snapshot?.stage).toBe("analyzed")
+      if (snapshot?.stage !== "analyzed") return
+      expect(snapshot.chat.chat_analysis.chat_summary).toBe("Done")
+    }
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, test, expect } from "bun:test"
+import {
+  LlmResponseSchema,
+  renderStatesMermaid,
+  validateLlmStates,
+} from "../src/index"
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const llm = LlmResponseSchema.parse({
+  llm_id: "llm_1",
+  last_modification_timestamp: 0,
+  starting_state: "intake",
+  general_tools: [{ type: "end_call", name: "end_call" }],
+  states: [
+    {
+      name: "intake",
+      state_prompt: "Ask why they called.",
+      edges: [
+        {
+          destination_state_name: "booking",
+          description: 'Caller wants to "book" an appointment',
+        },
+      ],
+    },
+    {
+      name: "booking",
+      state_prompt: "Book a slot.",
+      edges: [{ destination_state_name: "intake" }],
+      tools: [
+        {
+          type: "check_availability_cal",
+          name: "check_availability",
+          cal_api_key: "cal_test",
+          event_type_id: 1,
+        },
+      ],
+    },
+  ],
+})
+
+// ---------------------------------------------------------------------------
+// State machines
+// ---------------------------------------------------------------------------
+
+describe("validateLlmStates", () => {
+  test("accepts a well-formed state machine", () => {
+    expect(validateLlmStates(llm)).toEqual([])
+  })
+
+  test("ignores single-prompt LLMs", () => {
+    expect(validateLlmStates({ general_tools: [] })).toEqual([])
+  })
+
+  test("reports every kind of issue", () => {
+    const broken = LlmResponseSchema.parse({
+      llm_id: "llm_2",
+      last_modification_timestamp: 0,
+      starting_state: "start",
+      general_tools: [{ type: "end_call", name: "end_call" }],
+      states: [
+        { name: "greet", edges: [{ destination_state_name: "nowhere" }] },
+        { name: "greet" },
+        {
+          name: "orphan",
+          tools: [
+            { type: "end_call", name: "end_call" },
+            { type: "custom", name: "lookup", url: "https://a.example" },
+            { type: "custom", name: "lookup", url: "https://b.example" },
+          ],
+        },
+      ],
+    })
+
+    expect(validateLlmStates(broken)).toEqual([
+      {
+        type: "duplicate_state",
+        state: "greet",
+        message: 'State "greet" is defined more than once',
+      },
+      {
+        type: "invalid_starting_state",
+        state: undefined,
+        message: 'starting_state "start" is not a state',
+      },
+      {
+        type: "unknown_destination",
+        state: "greet",
+        message: 'State "greet" has an edge to unknown state "nowhere"',
+      },
+      {
+        type: "tool_name_collision",
+        state: "orphan",
+        message:
+          'State "orphan" has tool "end_call", which collides with a general tool',
+      },
+      {
+        type: "tool_name_collision",
+        state: "orphan",
+        message:
+          'State "orphan" has tool "lookup", which collides with another tool in the state',
+      },
+    ])
+  })
+
+  test("reports states unreachable from the starting state", () => {
+    const withOrphan = {
+      ...llm,
+      states: [...llm.states!, { name: "orphan" }],
+    }
+    expect(validateLlmStates(withOrphan)).toEqual([
+      {
+        type: "unreachable_state",
+        state: "orphan",
+        message: 'State "orphan" is unreachable from starting state "intake"',
+      },
+    ])
+  })
+})
+
+describe("renderStatesMermaid", () => {
+  test("renders states, tools and labelled edges", () => {
+    expect(renderStatesMermaid(llm)).toBe(
+      [
+        "flowchart TD",
+        '  start(("start")) --> s0',
+        '  s0["intake"]',
+        '  s1["booking<br/>tools: check_availability"]',
+        '  s0 -->|"Caller wants to #quot;book#quot; an appointment"| s1',
+        "  s1 --> s0",
+      ].join("\n"),
+    )
+  })
+
+  test("marks edges to unknown states", () => {
+    const mermaid = renderStatesMermaid({
+      states: [{ name: "a", edges: [{ destination_state_name: "b" }] }],
+    })
+    expect(mermaid).toContain('  missing0["b (missing)"]')
+    expect(mermaid).toContain("  s0 --> missing0")
+  })
+})
@@ -0,0 +1,225 @@
+import { describe, test, expect } from "bun:test"
+import {
+  CallSchemas,
+  ChatSchemas,
+  aggregateCosts,
+  aggregateLatency,
+  computeLatencyStats,
+  formatCostReport,
+} from "../src/index"
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function call(
+  id: string,
+  {
+    agentVersion = 1,
+    day = "2024-05-01",
+    minutes = 1,
+    successful = true,
+    reason = "user_hangup",
+    products = { elevenlabs_tts: 5, gpt_4_1: 3 } as Record<string, number>,
+  } = {},
+) {
+  const costs = Object.entries(products).map(([product, cost]) => ({
+    product,
+    cost,
+  }))
+  return CallSchemas.analyzed.parse({
+    call_id: id,
+    call_type: "web_call",
+    access_token: "token",
+    agent_id: "agent_a",
+    agent_version: agentVersion,
+    start_timestamp: Date.parse(`${day}T12:00:00Z`),
+    end_timestamp: Date.parse(`${day}T12:00:00Z`) + minutes * 60_000,
+    duration_ms: minutes * 60_000,
+    disconnection_reason: reason,
+    call_cost: {
+      product_costs: costs,
+      total_duration_seconds: minutes * 60,
+      total_duration_unit_price: 0,
+      combined_cost: costs.reduce((sum, c) => sum + c.cost, 0),
+    },
+    call_analysis: { call_successful: successful },
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Cost aggregation
+// ---------------------------------------------------------------------------
+
+describe("aggregateCosts", () => {
+  const chat = ChatSchemas.analyzed.parse({
+    chat_id: "chat_1",
+    agent_id: "agent_b",
+    chat_status: "ended",
+    start_timestamp: Date.parse("2024-05-02T09:00:00Z"),
+    end_timestamp: Date.parse("2024-05-02T09:02:00Z"),
+    chat_cost: { product_costs: [{ product: "gpt_4_1", cost: 2 }] },
+    chat_analysis: { chat_successful: false },
+  })
+
+  const report = aggregateCosts([
+    call("c1"),
+    call("c2", { agentVersion: 2, minutes: 2, successful: false }),
+    call("c3", {
+      agentVersion: 2,
+      day: "2024-05-02",
+      reason: "agent_hangup",
+      products: { gpt_4_1: 4 },
+    }),
+    chat,
+  ])
+
+  test("sums totals with cost per minute and per success", () => {
+    expect(report.total).toMatchObject({
+      conversations: 4,
+      calls: 3,
+      chats: 1,
+      successful: 2,
+      durationMs: 6 * 60_000,
+      cost: 8 + 8 + 4 + 2,
+    })
+    expect(report.total.costPerMinute).toBeCloseTo(22 / 6)
+    expect(report.total.costPerSuccessful).toBe(11)
+  })
+
+  test("breaks costs down by each dimension", () => {
+    const keyed = (groups: { key: string; cost: number }[]) =>
+      Object.fromEntries(groups.map((g) => [g.key, g.cost]))
+
+    expect(keyed(report.byProduct)).toEqual({ elevenlabs_tts: 10, gpt_4_1: 12 })
+    expect(report.byProduct[0]?.key).toBe("gpt_4_1")
+    expect(keyed(report.byAgent)).toEqual({ agent_a: 20, agent_b: 2 })
+    expect(keyed(report.byAgentVersion)).toEqual({
+      "agent_a@v1": 8,
+      "agent_a@v2": 12,
+      "agent_b@v?": 2,
+    })
+    expect(report.byDay.map((g) => [g.key, g.cost])).toEqual([
+      ["2024-05-01", 16],
+      ["2024-05-02", 6],
+    ])
+    expect(keyed(report.byDisconnectionReason)).toEqual({
+      user_hangup: 16,
+      agent_hangup: 4,
+    })
+    expect(
+      report.byAgentVersion.find((g) => g.key === "agent_a@v2"),
+    ).toMatchObject({ successful: 1, costPerSuccessful: 12 })
+  })
+
+  test("groups calls that never started under an unknown day", () => {
+    const notConnected = CallSchemas.base.parse({
+      call_id: "c4",
+      call_type: "phone_call",
+      call_status: "not_connected",
+      from_number: "+12025551234",
+      to_number: "+12025555678",
+      direction: "outbound",
+    })
+    expect(notConnected.start_timestamp.getTime()).toBe(0)
+    expect(aggregateCosts([notConnected]).byDay.map((g) => g.key)).toEqual([
+      "unknown",
+    ])
+  })
+
+  test("exports CSV and JSON", () => {
+    const csv = formatCostReport(report, "csv").split("\n")
+    expect(csv[0]).toBe(
+      "dimension,key,conversations,calls,chats,successful,duration_ms,cost,cost_per_minute,cost_per_successful",
+    )
+    expect(csv).toContain("day,2024-05-02,2,1,1,1,180000,6,2,6")
+    expect(JSON.parse(formatCostReport(report, "json"))).toEqual(
+      JSON.parse(JSON.stringify(report)),
+    )
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Latency aggregation
+// ---------------------------------------------------------------------------
+
+describe("aggregateLatency", () => {
+  const metric = (values: number[]) => ({
+    p50: 0,
+    p90: 0,
+    p95: 0,
+    p99: 0,
+    min: 0,
+    max: 0,
+    num: values.length,
+    values,
+  })
+  const withLatency = (
+    id: string,
+    agentVersion: number,
+    latency: Record<string, ReturnType<typeof metric>>,
+  ) => ({ ...call(id, { agentVersion }), latency })
+
+  const calls = [
+    withLatency("c1", 1, { e2e: metric([800, 900]), llm: metric([400]) }),
+    withLatency("c2", 1, { e2e: metric([1000, 1100, 3000]) }),
+    withLatency("c3", 2, { e2e: metric([700]) }),
+  ]
+
+  test("recomputes percentiles from pooled values", () => {
+    const stats = computeLatencyStats([5, 1, 4, 2, 3, 10, 9, 8, 7, 6])
+    expect(stats).toMatchObject({
+      num: 10,
+      min: 1,
+      max: 10,
+      mean: 5.5,
+      p50: 5,
+      p90: 9,
+      p95: 10,
+      p99: 10,
+    })
+    expect(computeLatencyStats([])).toBeUndefined()
+  })
+
+  test("groups by agent version", () => {
+    const [v1, v2] = aggregateLatency(calls)
+
+    expect(v1).toMatchObject({ key: "agent_a@v1", calls: 2 })
+    expect(v1?.metrics.e2e).toMatchObject({ num: 5, p50: 1000, max: 3000 })
+    expect(v1?.metrics.llm?.num).toBe(1)
+    expect(v1?.metrics.tts).toBeUndefined()
+    expect(v2?.metrics.e2e?.p99).toBe(700)
+  })
+
+  test("groups by a custom key and buckets a histogram", () => {
+    const [group] = aggregateLatency(calls, {
+      groupBy: (c) => (c.agent_version === 1 ? "gpt-4.1" : undefined),
+      bucketMs: 1000,
+    })
+
+    expect(group?.key).toBe("gpt-4.1")
+    expect(group?.metrics.e2e?.histogram).toEqual([
+      { startMs: 0, endMs: 1000, count: 2 },
+      { startMs: 1000, endMs: 2000, count: 2 },
+      { startMs: 3000, endMs: 4000, count: 1 },
+    ])
+  })
+
+  test("keeps only non-empty buckets around outliers", () => {
+    expect(computeLatencyStats([120, 5e9])?.histogram).toEqual([
+      { startMs: 100, endMs: 200, count: 1 },
+      { startMs: 5e9, endMs: 5e9 + 100, count: 1 },
+    ])
+  })
+
+  test("rejects bucket widths that aren't positive", () => {
+    for (const bucketMs of [0, -100, Number.NaN, Infinity]) {
+      expect(() => computeLatencyStats([100, 200], { bucketMs })).toThrow(
+        "bucketMs must be a positive number",
+      )
+      expect(() => aggregateLatency(calls, { bucketMs })).toThrow(
+        "bucketMs must be a positive number",
+      )
+    }
+  })
+})
@@ -6,7 +6,11 @@ import {
   CallSchemas,
   ChatSchemas,
   callSchemaDefaults,
+  analysisSchemaFromFields,
+  callAnalysisDataFromAgent,
+  chatAnalysisDataFromAgent,
   createCallSchemas,
+  LlmToolSchema,
 } from "../src/index"
 
 // ---------------------------------------------------------------------------
@@ -288,3 +292,123 @@ describe("opinionated transforms", () => {
     expect(result.duration_ms).toBe(0)
   })
 })
+
+// ---------------------------------------------------------------------------
+// Analysis data derived from agent config
+// ---------------------------------------------------------------------------
+
+describe("analysisSchemaFromFields", () => {
+  const agent = {
+    post_call_analysis_data: [
+      { type: "enum", name: "outcome", choices: ["booked", "declined"] },
+      { type: "boolean", name: "wants_callback" },
+      { type: "number", name: "party_size" },
+      { type: "string", name: "notes" },
+    ],
+  } as const
+
+  test("builds typed fields with enums from choices", () => {
+    const schema = callAnalysisDataFromAgent(agent)
+    expect(
+      schema.parse({ outcome: "booked", wants_callback: true, party_size: 2 }),
+    ).toEqual({ outcome: "booked", wants_callback: true, party_size: 2 })
+    expect(schema.safeParse({ party_size: "2" }).success).toBe(false)
+  })
+
+  test("accepts null for fields analysis couldn't fill", () => {
+    const schema = callAnalysisDataFromAgent(agent)
+    const data = {
+      outcome: null,
+      wants_callback: null,
+      party_size: null,
+      notes: null,
+    }
+    expect(schema.parse(data)).toEqual(data)
+  })
+
+  test("catches enum values outside the configured choices as null", () => {
+    const schema = callAnalysisDataFromAgent(agent)
+    expect(schema.parse({ outcome: "cancelled", notes: "x" })).toEqual({
+      outcome: null,
+      notes: "x",
+    })
+  })
+
+  test("plugs into createCallSchemas", () => {
+    const schemas = createCallSchemas({
+      ...callSchemaDefaults,
+      analysisData: analysisSchemaFromFields(agent.post_call_analysis_data),
+    })
+    const call = schemas.analyzed.parse({
+      call_id: "call_1",
+      call_type: "web_call",
+      access_token: "token",
+      call_analysis: {
+        custom_analysis_data: { outcome: "declined", notes: null },
+      },
+    })
+    expect(call.call_analysis.custom_analysis_data?.outcome).toBe("declined")
+    expect(call.call_analysis.custom_analysis_data?.notes).toBeNull()
+  })
+
+  test("reads post_chat_analysis_data for chat agents", () => {
+    const schema = chatAnalysisDataFromAgent({
+      post_chat_analysis_data: [
+        { type: "enum", name: "topic", choices: ["billing"] },
+      ],
+    })
+    expect(schema.safeParse({ topic: "billing" }).success).toBe(true)
+    expect(schema.parse({ topic: "sales" })).toEqual({ topic: null })
+  })
+
+  test("accepts a missing field list", () => {
+    expect(analysisSchemaFromFields(null).parse({ extra: 1 })).toEqual({
+      extra: 1,
+    })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// LLM tools
+// ---------------------------------------------------------------------------
+
+describe("LlmToolSchema", () => {
+  test("parses each tool type with its own fields", () => {
+    const transfer = LlmToolSchema.parse({
+      type: "transfer_call",
+      name: "transfer",
+      transfer_destination: { type: "predefined", number: "+14155550100" },
+    })
+    expect(
+      transfer.type === "transfer_call" && transfer.transfer_destination,
+    ).toEqual({ type: "predefined", number: "+14155550100" })
+
+    const sms = LlmToolSchema.parse({
+      type: "send_sms",
+      name: "send_link",
+      sms_content: { type: "predefined", content: "Pay here: {{link}}" },
+    })
+    expect(sms).toMatchObject({
+      sms_content: { content: "Pay here: {{link}}" },
+    })
+  })
+
+  test("keeps fields Retell adds to known tool types", () => {
+    const tool = {
+      type: "end_call",
+      name: "end_call",
+      speak_after_execution: false,
+    }
+    expect(LlmToolSchema.parse(tool)).toEqual(tool)
+  })
+
+  test("reports invalid known tools at the offending field", () => {
+    const result = LlmToolSchema.safeParse({ type: "custom", name: "lookup" })
+    expect(result.error?.issues.map((i) => i.path)).toEqual([["url"]])
+  })
+
+  test("passes unknown tool types through unchanged", () => {
+    const tool = { type: "future_tool", name: "later", setting: { on: true } }
+    expect(LlmToolSchema.parse(tool) as unknown).toEqual(tool)
+  })
+})
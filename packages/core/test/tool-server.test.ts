@@ -0,0 +1,257 @@
+import { createHmac } from "node:crypto"
+import { describe, test, expect } from "bun:test"
+import { z } from "zod"
+import {
+  callSchemaDefaults,
+  createCallSchemas,
+  createToolServer,
+} from "../src/index"
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const API_KEY = "key_test_123"
+const NOW = 1_700_000_000_000
+
+/** Signs a body the same way Retell does, using node:crypto independently. */
+function sign(body: string, timestamp = NOW, apiKey = API_KEY) {
+  const digest = createHmac("sha256", apiKey)
+    .update(body + timestamp)
+    .digest("hex")
+  return `v=${timestamp},d=${digest}`
+}
+
+const call = {
+  call_id: "call_1",
+  call_status: "ongoing",
+  call_type: "web_call",
+  access_token: "token",
+  start_timestamp: NOW,
+  metadata: { customer_id: "cus_1" },
+}
+
+// ---------------------------------------------------------------------------
+// Routing & validation
+// ---------------------------------------------------------------------------
+
+describe("createToolServer", () => {
+  function post(body: unknown, url = "http://localhost/tools") {
+    return new Request(url, { method: "POST", body: JSON.stringify(body) })
+  }
+  const lookupOrder = {
+    args: z.object({ order_id: z.string() }),
+    handler: ({ order_id }: { order_id: string }) => ({
+      order: { id: order_id, status: "shipped" },
+    }),
+  }
+
+  test("validates args, parses the call and responds with JSON", async () => {
+    const seen: unknown[] = []
+    const handle = createToolServer(
+      {
+        lookup_order: {
+          args: z.object({ order_id: z.string() }),
+          handler: ({ order_id }, ctx) => {
+            seen.push([order_id, ctx.call?.metadata.customer_id])
+            return { order: { id: order_id, status: "shipped" } }
+          },
+        },
+      },
+      {
+        schemas: createCallSchemas({
+          ...callSchemaDefaults,
+          metadata: z.object({ customer_id: z.string() }),
+        }),
+      },
+    )
+    const res = await handle(
+      post({ name: "lookup_order", call, args: { order_id: "o_1" } }),
+    )
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      order: { id: "o_1", status: "shipped" },
+    })
+    expect(seen).toEqual([["o_1", "cus_1"]])
+  })
+
+  test("rejects invalid args with 400 and unknown tools with 404", async () => {
+    const handle = createToolServer({ lookup_order: lookupOrder })
+    const invalid = await handle(
+      post({ name: "lookup_order", args: { order_id: 1 } }),
+    )
+    expect(invalid.status).toBe(400)
+    const unknown = await handle(post({ name: "cancel_order", args: {} }))
+    expect(unknown.status).toBe(404)
+    expect(await unknown.json()).toEqual({
+      error: 'Unknown tool "cancel_order"',
+    })
+  })
+
+  test("reads args_at_root tools from the body, routed by path", async () => {
+    const handle = createToolServer({
+      lookup_order: { ...lookupOrder, tool: { args_at_root: true } },
+    })
+    const res = await handle(
+      post({ order_id: "o_2" }, "http://localhost/tools/lookup_order"),
+    )
+    expect(await res.json()).toEqual({
+      order: { id: "o_2", status: "shipped" },
+    })
+  })
+
+  test("routes args_at_root tools by path even when an argument is a tool name", async () => {
+    const handle = createToolServer({
+      lookup_order: lookupOrder,
+      greet: {
+        args: z.object({ name: z.string() }),
+        handler: ({ name }) => `Hi ${name}`,
+        tool: { args_at_root: true },
+      },
+    })
+    const res = await handle(
+      post({ name: "lookup_order" }, "http://localhost/tools/greet"),
+    )
+    expect(await res.text()).toBe("Hi lookup_order")
+  })
+
+  test("routes enveloped requests by name, not path", async () => {
+    const handle = createToolServer({ lookup_order: lookupOrder })
+    const res = await handle(
+      post(
+        { name: "wrong_tool", args: { order_id: "o_1" } },
+        "http://localhost/tools/lookup_order",
+      ),
+    )
+    expect(res.status).toBe(404)
+    expect(await res.json()).toEqual({ error: 'Unknown tool "wrong_tool"' })
+  })
+
+  test("responds 504 before the tool's timeout_ms and aborts the handler", async () => {
+    let signal: AbortSignal | undefined
+    const handle = createToolServer(
+      {
+        slow: {
+          args: z.object({}),
+          handler: async (_args, ctx) => {
+            signal = ctx.signal
+            await Bun.sleep(200)
+            return "too late"
+          },
+          tool: { timeout_ms: 60 },
+        },
+      },
+      { timeoutMarginMs: 40 },
+    )
+    const res = await handle(post({ name: "slow", args: {} }))
+    expect(res.status).toBe(504)
+    expect(await res.json()).toEqual({
+      error: 'Tool "slow" timed out after 20ms',
+    })
+    expect(signal?.aborted).toBe(true)
+  })
+
+  test("verifies signatures and reports handler errors", async () => {
+    const errors: unknown[] = []
+    const handle = createToolServer(
+      {
+        lookup_order: {
+          ...lookupOrder,
+          handler: () => {
+            throw new Error("boom")
+          },
+        },
+      },
+      {
+        apiKey: API_KEY,
+        now: NOW,
+        onError: (err) => {
+          errors.push(err)
+        },
+      },
+    )
+    const body = JSON.stringify({
+      name: "lookup_order",
+      args: { order_id: "o_1" },
+    })
+    const unsigned = new Request("http://localhost/tools", {
+      method: "POST",
+      body,
+    })
+    expect((await handle(unsigned)).status).toBe(401)
+
+    const signed = new Request("http://localhost/tools", {
+      method: "POST",
+      body,
+      headers: { "x-retell-signature": sign(body) },
+    })
+    expect((await handle(signed)).status).toBe(500)
+    expect(errors).toHaveLength(1)
+  })
+
+  test("responds 404 for a malformed tool path", async () => {
+    const handle = createToolServer({ lookup_order: lookupOrder })
+    const res = await handle(post({}, "http://localhost/tools/%E0"))
+    expect(res.status).toBe(404)
+  })
+
+  test("still responds 500 when onError throws", async () => {
+    const handle = createToolServer(
+      {
+        lookup_order: {
+          ...lookupOrder,
+          handler: () => {
+            throw new Error("boom")
+          },
+        },
+      },
+      {
+        onError: async () => {
+          throw new Error("reporter down")
+        },
+      },
+    )
+    const res = await handle(
+      post({ name: "lookup_order", args: { order_id: "o_1" } }),
+    )
+    expect(res.status).toBe(500)
+  })
+
+  test("reports handlers that reject after the timeout", async () => {
+    const errors: unknown[] = []
+    const reported = Promise.withResolvers<void>()
+    const handle = createToolServer(
+      {
+        slow: {
+          args: z.object({}),
+          handler: async () => {
+            await Bun.sleep(60)
+            throw new Error("late")
+          },
+          tool: { timeout_ms: 30 },
+        },
+      },
+      {
+        timeoutMarginMs: 10,
+        onError: (err) => {
+          errors.push(err)
+          reported.resolve()
+          throw new Error("reporter down")
+        },
+      },
+    )
+    const res = await handle(post({ name: "slow", args: {} }))
+    expect(res.status).toBe(504)
+    await reported.promise
+    expect(errors).toEqual([new Error("late")])
+  })
+
+  test("rejects tools whose timeout_ms doesn't exceed the margin", () => {
+    expect(() =>
+      createToolServer(
+        { lookup_order: { ...lookupOrder, tool: { timeout_ms: 500 } } },
+        { timeoutMarginMs: 1000 },
+      ),
+    ).toThrow(/timeout_ms \(500\)/)
+  })
+})
@@ -0,0 +1,406 @@
+import { describe, test, expect } from "bun:test"
+import { z } from "zod"
+import {
+  ChatMessageEntrySchema,
+  TimestampedUtteranceSchema,
+  TranscriptEntrySchema,
+  buildSubtitleCues,
+  computeTurnTakingMetrics,
+  exportSubtitleTracks,
+  exportSubtitles,
+  pairToolCalls,
+  reconstructNodePath,
+} from "../src/index"
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const words = (start: number, end: number) => [{ word: "w", start, end }]
+
+const transcript = z.array(TranscriptEntrySchema).parse([
+  { role: "user", content: "Book me for Friday", words: words(0, 1.5) },
+  {
+    role: "tool_call_invocation",
+    tool_call_id: "t1",
+    name: "book_appointment",
+    arguments: '{"date":"2024-05-03","time":"10:00"}',
+  },
+  {
+    role: "tool_call_invocation",
+    tool_call_id: "t2",
+    name: "lookup_customer",
+    arguments: "not json",
+  },
+  {
+    role: "tool_call_result",
+    tool_call_id: "t1",
+    content: "booked",
+    successful: true,
+  },
+  { role: "agent", content: "You're booked", words: words(2.75, 3.5) },
+])
+
+// ---------------------------------------------------------------------------
+// Tool call pairing
+// ---------------------------------------------------------------------------
+
+describe("pairToolCalls", () => {
+  test("pairs invocations with results and surrounding utterances", () => {
+    const [booked, lookup] = pairToolCalls(transcript)
+
+    expect(booked).toMatchObject({
+      tool_call_id: "t1",
+      name: "book_appointment",
+      hasSchema: false,
+      result: "booked",
+      status: "success",
+      invocationIndex: 1,
+      resultIndex: 3,
+      before: { role: "user", index: 0 },
+      after: { role: "agent", index: 4 },
+      elapsedMs: 1250,
+    })
+    expect(booked?.args).toEqual({
+      success: true,
+      data: { date: "2024-05-03", time: "10:00" },
+    })
+
+    expect(lookup).toMatchObject({
+      tool_call_id: "t2",
+      status: "pending",
+      result: undefined,
+      elapsedMs: undefined,
+      args: { success: false },
+    })
+  })
+
+  test("validates arguments against per-tool schemas", () => {
+    const [booked] = pairToolCalls(transcript, {
+      book_appointment: z.object({ date: z.string(), time: z.number() }),
+    })
+
+    expect(booked?.hasSchema).toBe(true)
+    expect(booked?.args.success).toBe(false)
+  })
+
+  test("ignores schema keys inherited from Object.prototype", () => {
+    const entries = z.array(TranscriptEntrySchema).parse([
+      {
+        role: "tool_call_invocation",
+        tool_call_id: "t1",
+        name: "constructor",
+        arguments: '{"id":1}',
+      },
+    ])
+
+    const [call] = pairToolCalls(entries, {})
+    expect(call?.hasSchema).toBe(false)
+    expect(call?.args).toEqual({ success: true, data: { id: 1 } })
+  })
+
+  test("pairs a retried invocation with its own result", () => {
+    const entries = z.array(TranscriptEntrySchema).parse([
+      {
+        role: "tool_call_invocation",
+        tool_call_id: "t1",
+        name: "lookup",
+        arguments: "{}",
+      },
+      {
+        role: "tool_call_result",
+        tool_call_id: "t1",
+        content: "timeout",
+        successful: false,
+      },
+      {
+        role: "tool_call_invocation",
+        tool_call_id: "t1",
+        name: "lookup",
+        arguments: "{}",
+      },
+    ])
+
+    const [first, retry] = pairToolCalls(entries)
+    expect(first).toMatchObject({ status: "failure", resultIndex: 1 })
+    expect(retry).toMatchObject({ status: "pending", resultIndex: undefined })
+  })
+
+  test("uses created_timestamp for chat messages", () => {
+    const messages = z.array(ChatMessageEntrySchema).parse([
+      {
+        message_id: "m1",
+        role: "tool_call_invocation",
+        tool_call_id: "t1",
+        name: "lookup",
+        arguments: "{}",
+        created_timestamp: 1000,
+      },
+      {
+        message_id: "m2",
+        role: "tool_call_result",
+        tool_call_id: "t1",
+        content: "found",
+        created_timestamp: 1400,
+      },
+    ])
+
+    const [lookup] = pairToolCalls(messages)
+    expect(lookup).toMatchObject({ status: "success", elapsedMs: 400 })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Node path reconstruction
+// ---------------------------------------------------------------------------
+
+describe("reconstructNodePath", () => {
+  const flowTranscript = z.array(TranscriptEntrySchema).parse([
+    { role: "agent", content: "Hi, how can I help?" },
+    {
+      role: "node_transition",
+      former_node_id: "start",
+      former_node_name: "Greeting",
+      new_node_id: "book",
+      new_node_name: "Booking",
+      time_sec: 4.2,
+    },
+    { role: "user", content: "Book Friday" },
+    {
+      role: "node_transition",
+      former_node_id: "book",
+      new_node_id: "faq",
+      new_node_name: "FAQ",
+      time_sec: 10,
+      global_transition: true,
+    },
+    { role: "user", content: "What are your hours?" },
+  ])
+
+  test("builds the ordered path with dwell times and utterances", () => {
+    const path = reconstructNodePath(flowTranscript, { endMs: 15_000 })
+
+    expect(path.map((v) => v.id)).toEqual(["start", "book", "faq"])
+    expect(path.map((v) => v.dwellMs)).toEqual([4200, 5800, 5000])
+    expect(path.map((v) => v.enteredViaGlobal)).toEqual([false, false, true])
+    expect(path[0]).toMatchObject({
+      kind: "node",
+      name: "Greeting",
+      transitionIndex: undefined,
+      utterances: [{ role: "agent", content: "Hi, how can I help?", index: 0 }],
+    })
+    expect(path[2]?.transitionIndex).toBe(3)
+  })
+
+  test("leaves the last dwell undefined without an end time", () => {
+    const path = reconstructNodePath(flowTranscript)
+    expect(path.at(-1)).toMatchObject({
+      exitedAtMs: undefined,
+      dwellMs: undefined,
+    })
+  })
+
+  test("follows multi-prompt state transitions in chats", () => {
+    const messages = z.array(ChatMessageEntrySchema).parse([
+      {
+        message_id: "m1",
+        role: "agent",
+        content: "Hi",
+        created_timestamp: 1000,
+      },
+      {
+        message_id: "m2",
+        role: "state_transition",
+        former_state_name: "intro",
+        new_state_name: "qualify",
+        created_timestamp: 3000,
+      },
+      {
+        message_id: "m3",
+        role: "user",
+        content: "Yes",
+        created_timestamp: 3500,
+      },
+    ])
+
+    const path = reconstructNodePath(messages, { endMs: 6000 })
+    expect(path).toMatchObject([
+      { kind: "state", name: "intro", dwellMs: 2000 },
+      { kind: "state", name: "qualify", dwellMs: 3000 },
+    ])
+    expect(path[1]?.utterances).toHaveLength(1)
+  })
+
+  test("returns an empty path without transitions", () => {
+    expect(reconstructNodePath(transcript)).toEqual([])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Turn-taking metrics
+// ---------------------------------------------------------------------------
+
+describe("computeTurnTakingMetrics", () => {
+  const spoken = (role: "agent" | "user", ...timings: [number, number][]) => ({
+    role,
+    content: timings.map(() => "w").join(" "),
+    words: timings.map(([start, end]) => ({ word: "w", start, end })),
+  })
+
+  const utterances = z.array(TimestampedUtteranceSchema).parse([
+    spoken("agent", [1, 1.5], [1.5, 2]),
+    spoken("user", [2.5, 3], [3, 4]),
+    spoken("agent", [7, 8]),
+    // User talks over the agent for 700ms
+    spoken("user", [7.3, 7.6], [7.6, 9]),
+    // Brief 100ms crosstalk from the agent
+    spoken("agent", [8.9, 10]),
+  ])
+
+  test("computes talk time, pace and responsiveness", () => {
+    const metrics = computeTurnTakingMetrics(utterances)
+
+    expect(metrics.timeToFirstAgentWordMs).toBe(1000)
+    expect(metrics.roles.agent).toMatchObject({
+      turns: 3,
+      wordCount: 4,
+      talkMs: 3100,
+    })
+    expect(metrics.roles.user).toMatchObject({ turns: 2, talkMs: 3200 })
+    expect(metrics.roles.agent.talkRatio).toBeCloseTo(3100 / 6300)
+    expect(metrics.roles.user.wordsPerMinute).toBeCloseTo(4 / (3.2 / 60))
+    expect(metrics.roles.transfer_target.wordsPerMinute).toBeUndefined()
+    expect(metrics.averageAgentResponseMs).toBe(1500)
+  })
+
+  test("finds silences, overlaps and interruptions", () => {
+    const metrics = computeTurnTakingMetrics(utterances)
+
+    expect(metrics.silences).toEqual([
+      { afterIndex: 1, startMs: 4000, endMs: 7000, durationMs: 3000 },
+    ])
+    expect(metrics.longestSilenceMs).toBe(3000)
+    expect(metrics.overlaps).toEqual([
+      {
+        index: 3,
+        overlappedIndex: 2,
+        role: "user",
+        startMs: 7300,
+        durationMs: 700,
+        interruption: true,
+      },
+      {
+        index: 4,
+        overlappedIndex: 3,
+        role: "agent",
+        startMs: 8900,
+        durationMs: 100,
+        interruption: false,
+      },
+    ])
+    expect(metrics.interruptions).toEqual({
+      agent: 0,
+      user: 1,
+      transfer_target: 0,
+    })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Subtitle export
+// ---------------------------------------------------------------------------
+
+describe("subtitles", () => {
+  const captioned = z.array(TimestampedUtteranceSchema).parse([
+    {
+      role: "agent",
+      content: "Hello there, press one",
+      words: [
+        { word: "Hello", start: 0.5, end: 0.9 },
+        { word: "there,", start: 0.9, end: 1.2 },
+        { word: "press", start: 1.4, end: 1.7 },
+        { word: "one", start: 1.7, end: 2 },
+      ],
+    },
+    {
+      role: "user",
+      content: "Okay",
+      words: [{ word: "Okay", start: 3, end: 3.4 }],
+    },
+  ])
+
+  const withTools = z.array(TranscriptEntrySchema).parse([
+    { ...captioned[0] },
+    { role: "dtmf", digit: "1" },
+    {
+      role: "tool_call_invocation",
+      tool_call_id: "t1",
+      name: "route_call",
+      arguments: "{}",
+    },
+    { ...captioned[1] },
+  ])
+
+  test("splits utterances by maximum cue length", () => {
+    const cues = buildSubtitleCues(captioned, { maxCueChars: 12 })
+    expect(cues.map((c) => c.text)).toEqual([
+      "Hello there,",
+      "press one",
+      "Okay",
+    ])
+    expect(cues[1]).toMatchObject({ startMs: 1400, endMs: 2000, role: "agent" })
+
+    const byTime = buildSubtitleCues(captioned, { maxCueMs: 500 })
+    expect(byTime.map((c) => c.text)).toEqual([
+      "Hello",
+      "there,",
+      "press",
+      "one",
+      "Okay",
+    ])
+  })
+
+  test("formats SRT with speaker labels and annotations", () => {
+    expect(exportSubtitles(captioned, "srt", { annotations: withTools })).toBe(
+      [
+        "1",
+        "00:00:00,500 --> 00:00:02,000",
+        "Agent: Hello there, press one",
+        "",
+        "2",
+        "00:00:02,000 --> 00:00:03,500",
+        "[DTMF: 1]",
+        "",
+        "3",
+        "00:00:02,000 --> 00:00:03,500",
+        "[Tool call: route_call]",
+        "",
+        "4",
+        "00:00:03,000 --> 00:00:03,400",
+        "User: Okay",
+        "",
+      ].join("\n"),
+    )
+  })
+
+  test("formats WebVTT with voice tags", () => {
+    const vtt = exportSubtitles(captioned, "vtt", {
+      labels: { user: "Caller" },
+    })
+    expect(vtt.startsWith("WEBVTT\n\n00:00:00.500 --> 00:00:02.000\n")).toBe(
+      true,
+    )
+    expect(vtt).toContain("<v Caller>Okay")
+  })
+
+  test("exports a separate track per role", () => {
+    const tracks = exportSubtitleTracks(captioned, "vtt", {
+      annotations: withTools,
+    })
+    expect(tracks.agent).toContain("\nHello there, press one\n")
+    expect(tracks.agent).toContain("[Tool call: route_call]")
+    expect(tracks.agent).not.toContain("Okay")
+    expect(tracks.user).toContain("[DTMF: 1]")
+    expect(tracks.transfer_target).toBe("WEBVTT\n")
+  })
+})
@@ -0,0 +1,345 @@
+import { Database } from "bun:sqlite"
+import { describe, test, expect } from "bun:test"
+import { CallSchemas, ChatSchemas, createWarehouse } from "../src/index"
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const baseCall = {
+  call_id: "call_1",
+  agent_id: "agent_1",
+  agent_version: 3,
+  call_status: "ongoing",
+  call_type: "phone_call",
+  from_number: "+12025551234",
+  to_number: "+12025555678",
+  direction: "inbound",
+  start_timestamp: 1_700_000_000_000,
+  metadata: { customer_id: "cus_1" },
+  transcript_with_tool_calls: [
+    {
+      role: "agent",
+      content: "Hello",
+      words: [{ word: "Hello", start: 0.5, end: 0.9 }],
+    },
+    {
+      role: "node_transition",
+      former_node_id: "a",
+      new_node_id: "b",
+      time_sec: 1.2,
+      global_transition: false,
+    },
+    {
+      role: "tool_call_invocation",
+      tool_call_id: "t1",
+      name: "lookup",
+      arguments: '{"id":1}',
+    },
+    {
+      role: "tool_call_result",
+      tool_call_id: "t1",
+      content: "found",
+      successful: true,
+    },
+    { role: "dtmf", digit: "5" },
+  ],
+}
+
+const endedCall = {
+  ...baseCall,
+  call_status: "ended",
+  end_timestamp: 1_700_000_060_000,
+  duration_ms: 60_000,
+  disconnection_reason: "user_hangup",
+  call_cost: {
+    product_costs: [
+      { product: "elevenlabs_tts", unit_price: 0.1, cost: 6 },
+      { product: "gpt_4_1", cost: 3 },
+    ],
+    total_duration_seconds: 60,
+    total_duration_unit_price: 0.15,
+    combined_cost: 9,
+  },
+  latency: {
+    e2e: {
+      p50: 800,
+      p90: 1200,
+      p95: 1300,
+      p99: 1400,
+      min: 600,
+      max: 1500,
+      num: 3,
+      values: [600, 800, 1500],
+    },
+  },
+}
+
+const analyzedCall = {
+  ...endedCall,
+  call_analysis: {
+    call_summary: "Caller booked",
+    call_successful: true,
+    user_sentiment: "Positive",
+    custom_analysis_data: { booked: true },
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Calls
+// ---------------------------------------------------------------------------
+
+describe("warehouse calls", () => {
+  test("normalizes an analyzed call", () => {
+    const warehouse = createWarehouse(new Database(":memory:"))
+    const call = CallSchemas.analyzed.parse(analyzedCall)
+    expect(
+      warehouse.upsertCall({
+        stage: "analyzed",
+        lastEvent: "call_analyzed",
+        call,
+      }),
+    ).toBe(true)
+
+    const record = warehouse.getCall("call_1")
+    expect(record).toMatchObject({
+      stage: "analyzed",
+      agent_id: "agent_1",
+      direction: "inbound",
+      start_timestamp: 1_700_000_000_000,
+      duration_ms: 60_000,
+      call_successful: true,
+      combined_cost: 9,
+      metadata: { customer_id: "cus_1" },
+      custom_analysis_data: { booked: true },
+    })
+
+    const transcript = warehouse.getTranscript("call_1")
+    expect(transcript.map((e) => e.role)).toEqual([
+      "agent",
+      "node_transition",
+      "tool_call_invocation",
+      "tool_call_result",
+      "dtmf",
+    ])
+    expect(transcript[0]).toMatchObject({ start_sec: 0.5, end_sec: 0.9 })
+    expect(transcript[4]?.content).toBe("5")
+
+    expect(warehouse.getToolCalls("call_1")).toEqual([
+      {
+        conversation_id: "call_1",
+        tool_call_id: "t1",
+        name: "lookup",
+        arguments: '{"id":1}',
+        result: "found",
+        successful: true,
+        invocation_position: 2,
+        result_position: 3,
+      },
+    ])
+    expect(warehouse.getNodeTransitions("call_1")[0]).toMatchObject({
+      former_node_id: "a",
+      new_node_id: "b",
+      time_sec: 1.2,
+      global_transition: false,
+    })
+    expect(warehouse.getProductCosts("call_1")).toHaveLength(2)
+    expect(warehouse.getLatency("call_1")[0]).toMatchObject({
+      metric: "e2e",
+      p50: 800,
+      values: [600, 800, 1500],
+    })
+  })
+
+  test("never downgrades a later stage", () => {
+    const warehouse = createWarehouse(new Database(":memory:"))
+    const analyzed = CallSchemas.analyzed.parse(analyzedCall)
+    const started = CallSchemas.base.parse(baseCall)
+    warehouse.upsertCall({
+      stage: "analyzed",
+      lastEvent: "call_analyzed",
+      call: analyzed,
+    })
+    expect(
+      warehouse.upsertCall({
+        stage: "started",
+        lastEvent: "call_started",
+        call: started,
+      }),
+    ).toBe(false)
+    expect(warehouse.getCall("call_1")?.stage).toBe("analyzed")
+    expect(warehouse.getProductCosts("call_1")).toHaveLength(2)
+  })
+
+  test("re-upserting replaces child rows", () => {
+    const warehouse = createWarehouse(new Database(":memory:"))
+    const ended = CallSchemas.ended.parse(endedCall)
+    warehouse.upsertCall({
+      stage: "ended",
+      lastEvent: "call_ended",
+      call: ended,
+    })
+    warehouse.upsertCall({
+      stage: "ended",
+      lastEvent: "call_ended",
+      call: ended,
+    })
+    expect(warehouse.getTranscript("call_1")).toHaveLength(5)
+    expect(warehouse.getProductCosts("call_1")).toHaveLength(2)
+  })
+
+  test("keeps the last invocation of a reused tool_call_id", () => {
+    const warehouse = createWarehouse(new Database(":memory:"))
+    const call = CallSchemas.base.parse({
+      ...baseCall,
+      transcript_with_tool_calls: [
+        {
+          role: "tool_call_invocation",
+          tool_call_id: "t1",
+          name: "lookup",
+          arguments: '{"id":1}',
+        },
+        {
+          role: "tool_call_result",
+          tool_call_id: "t1",
+          content: "timeout",
+          successful: false,
+        },
+        {
+          role: "tool_call_invocation",
+          tool_call_id: "t1",
+          name: "lookup",
+          arguments: '{"id":2}',
+        },
+        {
+          role: "tool_call_result",
+          tool_call_id: "t1",
+          content: "found",
+          successful: true,
+        },
+      ],
+    })
+    warehouse.upsertCall({ stage: "started", lastEvent: "call_started", call })
+
+    expect(warehouse.getToolCalls("call_1")).toEqual([
+      expect.objectContaining({
+        arguments: '{"id":2}',
+        result: "found",
+        successful: true,
+        invocation_position: 2,
+        result_position: 3,
+      }),
+    ])
+  })
+
+  test("stores successful as null when the result omits it", () => {
+    const warehouse = createWarehouse(new Database(":memory:"))
+    const call = CallSchemas.base.parse({
+      ...baseCall,
+      transcript_with_tool_calls: [
+        {
+          role: "tool_call_invocation",
+          tool_call_id: "t1",
+          name: "lookup",
+          arguments: "{}",
+        },
+        { role: "tool_call_result", tool_call_id: "t1", content: "found" },
+      ],
+    })
+    warehouse.upsertCall({ stage: "started", lastEvent: "call_started", call })
+
+    expect(warehouse.getToolCalls("call_1")[0]).toMatchObject({
+      result: "found",
+      successful: null,
+    })
+  })
+
+  test("listCalls filters by agent, stage, and time", () => {
+    const warehouse = createWarehouse(new Database(":memory:"))
+    warehouse.upsertCall({
+      stage: "analyzed",
+      lastEvent: "call_analyzed",
+      call: CallSchemas.analyzed.parse(analyzedCall),
+    })
+    warehouse.upsertCall({
+      stage: "started",
+      lastEvent: "call_started",
+      call: CallSchemas.base.parse({
+        ...baseCall,
+        call_id: "call_2",
+        agent_id: "agent_2",
+      }),
+    })
+    expect(warehouse.listCalls()).toHaveLength(2)
+    expect(
+      warehouse.listCalls({ agentId: "agent_2" }).map((c) => c.call_id),
+    ).toEqual(["call_2"])
+    expect(
+      warehouse.listCalls({ stage: "analyzed" }).map((c) => c.call_id),
+    ).toEqual(["call_1"])
+    expect(
+      warehouse.listCalls({ since: new Date(1_800_000_000_000) }),
+    ).toHaveLength(0)
+    expect(warehouse.listCalls({ limit: 1 })).toHaveLength(1)
+  })
+
+  test("listCalls rejects limits that aren't non-negative integers", () => {
+    const warehouse = createWarehouse(new Database(":memory:"))
+    warehouse.upsertCall({
+      stage: "started",
+      lastEvent: "call_started",
+      call: CallSchemas.base.parse(baseCall),
+    })
+    expect(warehouse.listCalls({ limit: 0 })).toEqual([])
+    for (const limit of [Number.NaN, Infinity, -1, 1.5]) {
+      expect(() => warehouse.listCalls({ limit })).toThrow(
+        "limit must be a non-negative integer",
+      )
+    }
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Chats
+// ---------------------------------------------------------------------------
+
+describe("warehouse chats", () => {
+  test("normalizes an analyzed chat", () => {
+    const warehouse = createWarehouse(new Database(":memory:"))
+    const chat = ChatSchemas.analyzed.parse({
+      chat_id: "chat_1",
+      agent_id: "agent_1",
+      chat_status: "ended",
+      start_timestamp: 1_700_000_000_000,
+      message_with_tool_calls: [
+        { message_id: "m1", role: "user", content: "Hi", created_timestamp: 1 },
+        {
+          message_id: "m2",
+          role: "node_transition",
+          new_node_id: "b",
+          created_timestamp: 2,
+        },
+      ],
+      chat_cost: {
+        product_costs: [{ product: "gpt_4_1", cost: 1 }],
+        combined_cost: 1,
+      },
+      chat_analysis: { chat_summary: "Greeting", chat_successful: false },
+    })
+    expect(
+      warehouse.upsertChat({
+        stage: "analyzed",
+        lastEvent: "chat_analyzed",
+        chat,
+      }),
+    ).toBe(true)
+    expect(warehouse.getChat("chat_1")).toMatchObject({
+      stage: "analyzed",
+      chat_successful: false,
+      combined_cost: 1,
+    })
+    expect(warehouse.getTranscript("chat_1")[0]?.created_timestamp).toBe(1)
+    expect(warehouse.getNodeTransitions("chat_1")[0]?.new_node_id).toBe("b")
+    expect(warehouse.listChats({ agentId: "agent_1" })).toHaveLength(1)
+  })
+})
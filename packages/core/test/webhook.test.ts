@@ -0,0 +1,603 @@
+import { createHmac } from "node:crypto"
+import { createServer } from "node:http"
+import type { AddressInfo } from "node:net"
+import { Database } from "bun:sqlite"
+import { describe, test, expect } from "bun:test"
+import { z, ZodError } from "zod"
+import {
+  WebhookEventSchema,
+  WebhookSchemas,
+  WebhookSignatureError,
+  callSchemaDefaults,
+  chatSchemaDefaults,
+  createCallSchemas,
+  createChatSchemas,
+  type IdempotencyStore,
+  createFetchWebhookHandler,
+  createMemoryIdempotencyStore,
+  createSqliteIdempotencyStore,
+  createHonoWebhookHandler,
+  createNodeWebhookHandler,
+  createWebhookHandler,
+  createWebhookSchemas,
+  parseVerifiedWebhook,
+  verifyWebhookSignature,
+} from "../src/index"
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const API_KEY = "key_test_123"
+const NOW = 1_700_000_000_000
+
+/** Signs a body the same way Retell does, using node:crypto independently. */
+function sign(body: string, timestamp = NOW, apiKey = API_KEY) {
+  const digest = createHmac("sha256", apiKey)
+    .update(body + timestamp)
+    .digest("hex")
+  return `v=${timestamp},d=${digest}`
+}
+
+const callStartedBody = JSON.stringify({
+  event: "call_started",
+  call: {
+    call_id: "call_1",
+    call_status: "ongoing",
+    call_type: "web_call",
+    access_token: "token",
+    start_timestamp: NOW,
+    metadata: { customer_id: "cus_1" },
+  },
+})
+
+// ---------------------------------------------------------------------------
+// verifyWebhookSignature
+// ---------------------------------------------------------------------------
+
+describe("verifyWebhookSignature", () => {
+  test("accepts a valid signature", async () => {
+    const valid = await verifyWebhookSignature(
+      callStartedBody,
+      sign(callStartedBody),
+      API_KEY,
+      { now: NOW },
+    )
+    expect(valid).toBe(true)
+  })
+
+  test("rejects a tampered body", async () => {
+    const valid = await verifyWebhookSignature(
+      callStartedBody.replace("call_1", "call_2"),
+      sign(callStartedBody),
+      API_KEY,
+      { now: NOW },
+    )
+    expect(valid).toBe(false)
+  })
+
+  test("rejects the wrong API key", async () => {
+    const valid = await verifyWebhookSignature(
+      callStartedBody,
+      sign(callStartedBody, NOW, "key_other"),
+      API_KEY,
+      { now: NOW },
+    )
+    expect(valid).toBe(false)
+  })
+
+  test("rejects missing or malformed headers", async () => {
+    for (const header of [null, undefined, "", "garbage", "v=abc,d=123"]) {
+      expect(
+        await verifyWebhookSignature(callStartedBody, header, API_KEY, {
+          now: NOW,
+        }),
+      ).toBe(false)
+    }
+  })
+
+  test("enforces timestamp tolerance", async () => {
+    const header = sign(callStartedBody, NOW - 10 * 60 * 1000)
+    expect(
+      await verifyWebhookSignature(callStartedBody, header, API_KEY, {
+        now: NOW,
+      }),
+    ).toBe(false)
+    expect(
+      await verifyWebhookSignature(callStartedBody, header, API_KEY, {
+        now: NOW,
+        toleranceMs: 15 * 60 * 1000,
+      }),
+    ).toBe(true)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// parseVerifiedWebhook
+// ---------------------------------------------------------------------------
+
+describe("parseVerifiedWebhook", () => {
+  test("parses with default schemas", async () => {
+    const event = await parseVerifiedWebhook(
+      callStartedBody,
+      sign(callStartedBody),
+      API_KEY,
+      { now: NOW },
+    )
+    expect(event.event).toBe("call_started")
+  })
+
+  test("parses with custom schemas", async () => {
+    const webhooks = createWebhookSchemas({
+      call: createCallSchemas({
+        ...callSchemaDefaults,
+        metadata: z.object({ customer_id: z.string() }),
+      }),
+      chat: createChatSchemas(chatSchemaDefaults),
+    })
+    const event = await parseVerifiedWebhook(
+      callStartedBody,
+      sign(callStartedBody),
+      API_KEY,
+      { now: NOW, schemas: webhooks },
+    )
+    if (event.event !== "call_started") throw new Error("wrong event")
+    expect(event.call.metadata.customer_id).toBe("cus_1")
+    expect(event.call.start_timestamp).toBeInstanceOf(Date)
+  })
+
+  test("throws WebhookSignatureError before parsing", async () => {
+    const err = await parseVerifiedWebhook("not json", sign("other"), API_KEY, {
+      now: NOW,
+    }).catch((e: unknown) => e)
+    expect(err).toBeInstanceOf(WebhookSignatureError)
+  })
+
+  test("throws ZodError on a signed but invalid payload", async () => {
+    const body = JSON.stringify({ event: "call_started", call: {} })
+    const err = await parseVerifiedWebhook(body, sign(body), API_KEY, {
+      now: NOW,
+    }).catch((e: unknown) => e)
+    expect(err).toBeInstanceOf(ZodError)
+  })
+
+  test("throws SyntaxError on a signed body that isn't JSON", async () => {
+    const err = await parseVerifiedWebhook("{nope", sign("{nope"), API_KEY, {
+      now: NOW,
+    }).catch((e: unknown) => e)
+    expect(err).toBeInstanceOf(SyntaxError)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Event coverage
+// ---------------------------------------------------------------------------
+
+describe("WebhookSchemas.event", () => {
+  // Analysis fields fall back via `.catch()`, so one payload fits every stage
+  const call = { ...JSON.parse(callStartedBody).call, call_analysis: {} }
+
+  test("covers every voice webhook event in the enum", () => {
+    for (const event of WebhookEventSchema.options) {
+      const result = WebhookSchemas.event.safeParse({ event, call })
+      if (!result.success) {
+        console.error(`${event} parse failed:`, result.error.issues)
+      }
+      expect(result.success).toBe(true)
+    }
+  })
+
+  test("parses transfer-specific fields", () => {
+    const result = WebhookSchemas.event.parse({
+      event: "transfer_ended",
+      call,
+      transfer_destination: "+12025551234",
+      transfer_start_timestamp: NOW,
+      transfer_end_timestamp: NOW + 1000,
+      transfer_option: { type: "warm_transfer" },
+    })
+    if (result.event !== "transfer_ended") throw new Error("wrong event")
+    expect(result.transfer_destination).toBe("+12025551234")
+    expect(result.transfer_end_timestamp).toBeInstanceOf(Date)
+    expect(result.transfer_option?.type).toBe("warm_transfer")
+  })
+
+  test("keeps fields Retell adds to transcript_updated", () => {
+    const result = WebhookSchemas.event.parse({
+      event: "transcript_updated",
+      call,
+      sequence: 3,
+    })
+    expect(result).toMatchObject({ event: "transcript_updated", sequence: 3 })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// createWebhookHandler
+// ---------------------------------------------------------------------------
+
+describe("createWebhookHandler", () => {
+  function post(body: string, headers: Record<string, string> = {}) {
+    return new Request("http://localhost/webhook", {
+      method: "POST",
+      body,
+      headers,
+    })
+  }
+
+  test("dispatches to the matching handler", async () => {
+    const seen: string[] = []
+    const handle = createWebhookHandler({
+      call_started: ({ call }) => {
+        seen.push(call.call_id)
+      },
+      call_ended: () => {
+        throw new Error("should not be called")
+      },
+    })
+    const res = await handle(post(callStartedBody))
+    expect(res.status).toBe(204)
+    expect(seen).toEqual(["call_1"])
+  })
+
+  test("uses the handler's Response when returned", async () => {
+    const handle = createWebhookHandler({
+      call_started: () => Response.json({ ok: true }, { status: 200 }),
+    })
+    const res = await handle(post(callStartedBody))
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ ok: true })
+  })
+
+  test("verifies signatures when apiKey is set", async () => {
+    const handle = createWebhookHandler({ apiKey: API_KEY, now: NOW })
+    expect((await handle(post(callStartedBody))).status).toBe(401)
+    const res = await handle(
+      post(callStartedBody, { "x-retell-signature": sign(callStartedBody) }),
+    )
+    expect(res.status).toBe(204)
+  })
+
+  test("rejects invalid JSON and invalid payloads with 400", async () => {
+    const handle = createWebhookHandler({})
+    expect((await handle(post("{nope"))).status).toBe(400)
+    const res = await handle(
+      post(JSON.stringify({ event: "call_started", call: {} })),
+    )
+    expect(res.status).toBe(400)
+  })
+
+  test("routes unknown events to onUnknown", async () => {
+    const unknown: unknown[] = []
+    const handle = createWebhookHandler({
+      onUnknown: (body) => {
+        unknown.push(body)
+      },
+    })
+    const res = await handle(post(JSON.stringify({ event: "call_exploded" })))
+    expect(res.status).toBe(204)
+    expect(unknown).toEqual([{ event: "call_exploded" }])
+  })
+
+  test("reports handler errors and responds 500", async () => {
+    const errors: unknown[] = []
+    const handle = createWebhookHandler({
+      call_started: () => {
+        throw new Error("boom")
+      },
+      onError: (err) => {
+        errors.push(err)
+      },
+    })
+    const res = await handle(post(callStartedBody))
+    expect(res.status).toBe(500)
+    expect(errors).toHaveLength(1)
+  })
+
+  test("responds 500 even when onError throws", async () => {
+    const handle = createWebhookHandler({
+      call_started: () => {
+        throw new Error("boom")
+      },
+      onError: async () => {
+        throw new Error("reporter down")
+      },
+    })
+    const res = await handle(post(callStartedBody))
+    expect(res.status).toBe(500)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Framework adapters (in-process servers)
+// ---------------------------------------------------------------------------
+
+describe("webhook adapters", () => {
+  const signedHeaders = {
+    "content-type": "application/json",
+    "x-retell-signature": sign(callStartedBody),
+  }
+
+  function recordingOptions() {
+    const seen: string[] = []
+    return {
+      seen,
+      options: {
+        apiKey: API_KEY,
+        now: NOW,
+        call_started: ({ call }: { call: { call_id: string } }) => {
+          seen.push(call.call_id)
+        },
+      },
+    }
+  }
+
+  test("Bun.serve via createFetchWebhookHandler", async () => {
+    const { seen, options } = recordingOptions()
+    const server = Bun.serve({
+      port: 0,
+      fetch: createFetchWebhookHandler(options),
+    })
+    try {
+      const ok = await fetch(server.url, {
+        method: "POST",
+        body: callStartedBody,
+        headers: signedHeaders,
+      })
+      const unsigned = await fetch(server.url, {
+        method: "POST",
+        body: callStartedBody,
+      })
+      expect(ok.status).toBe(204)
+      expect(unsigned.status).toBe(401)
+      expect(seen).toEqual(["call_1"])
+    } finally {
+      await server.stop(true)
+    }
+  })
+
+  test("node:http via createNodeWebhookHandler", async () => {
+    const { seen, options } = recordingOptions()
+    const server = createServer(createNodeWebhookHandler(options))
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    const { port } = server.address() as AddressInfo
+    try {
+      const ok = await fetch(`http://localhost:${port}/webhook`, {
+        method: "POST",
+        body: callStartedBody,
+        headers: signedHeaders,
+      })
+      const badJson = await fetch(`http://localhost:${port}/webhook`, {
+        method: "POST",
+        body: "{nope",
+        headers: { "x-retell-signature": sign("{nope") },
+      })
+      expect(ok.status).toBe(204)
+      expect(badJson.status).toBe(400)
+      expect(seen).toEqual(["call_1"])
+    } finally {
+      await new Promise((resolve) => server.close(resolve))
+    }
+  })
+
+  test("node adapter uses a body captured by middleware", async () => {
+    const { seen, options } = recordingOptions()
+    const handle = createNodeWebhookHandler(options)
+    const server = createServer((req, res) => {
+      // Simulate express.raw(): drain the stream into req.body
+      const chunks: Buffer[] = []
+      req.on("data", (c: Buffer) => chunks.push(c))
+      req.on("end", () => {
+        Object.assign(req, { body: Buffer.concat(chunks) })
+        void handle(req, res)
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    const { port } = server.address() as AddressInfo
+    try {
+      const res = await fetch(`http://localhost:${port}/webhook`, {
+        method: "POST",
+        body: callStartedBody,
+        headers: signedHeaders,
+      })
+      expect(res.status).toBe(204)
+      expect(seen).toEqual(["call_1"])
+    } finally {
+      await new Promise((resolve) => server.close(resolve))
+    }
+  })
+
+  test("node adapter responds 500 when onError throws", async () => {
+    const handle = createNodeWebhookHandler({
+      onError: async () => {
+        throw new Error("reporter down")
+      },
+    })
+    const server = createServer((req, res) => {
+      Object.defineProperty(req, "rawBody", {
+        get: () => {
+          throw new Error("capture failed")
+        },
+      })
+      void handle(req, res)
+    })
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    const { port } = server.address() as AddressInfo
+    try {
+      const res = await fetch(`http://localhost:${port}/webhook`, {
+        method: "POST",
+        body: callStartedBody,
+      })
+      expect(res.status).toBe(500)
+    } finally {
+      await new Promise((resolve) => server.close(resolve))
+    }
+  })
+
+  test("Hono-style context via createHonoWebhookHandler", async () => {
+    const { seen, options } = recordingOptions()
+    const handle = createHonoWebhookHandler(options)
+    const res = await handle({
+      req: {
+        raw: new Request("http://localhost/webhook", {
+          method: "POST",
+          body: callStartedBody,
+          headers: signedHeaders,
+        }),
+      },
+    })
+    expect(res.status).toBe(204)
+    expect(seen).toEqual(["call_1"])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Idempotency
+// ---------------------------------------------------------------------------
+
+describe("webhook idempotency", () => {
+  const stores: [string, () => IdempotencyStore][] = [
+    ["memory", () => createMemoryIdempotencyStore()],
+    ["sqlite", () => createSqliteIdempotencyStore(new Database(":memory:"))],
+  ]
+
+  for (const [name, createStore] of stores) {
+    describe(name, () => {
+      test("claims a key once until released", async () => {
+        const store = createStore()
+        expect(await store.claim("call_analyzed:call_1")).toBe(true)
+        expect(await store.claim("call_analyzed:call_1")).toBe(false)
+        expect(await store.claim("call_ended:call_1")).toBe(true)
+        await store.release("call_analyzed:call_1")
+        expect(await store.claim("call_analyzed:call_1")).toBe(true)
+      })
+
+      test("duplicate deliveries are acknowledged but not re-processed", async () => {
+        let calls = 0
+        const handle = createWebhookHandler({
+          idempotency: createStore(),
+          call_started: () => {
+            calls++
+          },
+        })
+        const post = () =>
+          handle(
+            new Request("http://localhost/", {
+              method: "POST",
+              body: callStartedBody,
+            }),
+          )
+        expect((await post()).status).toBe(204)
+        expect((await post()).status).toBe(204)
+        expect(calls).toBe(1)
+      })
+
+      test("failed handlers release the key for retries", async () => {
+        let attempts = 0
+        const handle = createWebhookHandler({
+          idempotency: createStore(),
+          call_started: () => {
+            if (++attempts === 1) throw new Error("transient")
+          },
+        })
+        const post = () =>
+          handle(
+            new Request("http://localhost/", {
+              method: "POST",
+              body: callStartedBody,
+            }),
+          )
+        expect((await post()).status).toBe(500)
+        expect((await post()).status).toBe(204)
+        expect(attempts).toBe(2)
+      })
+    })
+  }
+
+  test("a failed claim doesn't release the key", async () => {
+    const released: string[] = []
+    const handle = createWebhookHandler({
+      idempotency: {
+        claim: () => {
+          throw new Error("store unavailable")
+        },
+        release: (key) => {
+          released.push(key)
+        },
+      },
+      call_started: () => {},
+    })
+    const res = await handle(
+      new Request("http://localhost/", {
+        method: "POST",
+        body: callStartedBody,
+      }),
+    )
+    expect(res.status).toBe(500)
+    expect(released).toEqual([])
+  })
+
+  test("reports a failed release and still responds 500", async () => {
+    const errors: unknown[] = []
+    const handle = createWebhookHandler({
+      idempotency: {
+        claim: () => true,
+        release: () => {
+          throw new Error("store unavailable")
+        },
+      },
+      call_started: () => {
+        throw new Error("boom")
+      },
+      onError: (err) => {
+        errors.push(err)
+      },
+    })
+    const res = await handle(
+      new Request("http://localhost/", {
+        method: "POST",
+        body: callStartedBody,
+      }),
+    )
+    expect(res.status).toBe(500)
+    expect(errors).toEqual([new Error("store unavailable"), new Error("boom")])
+  })
+
+  test("processes a second transfer attempt in the same call", async () => {
+    const attempts: number[] = []
+    const handle = createWebhookHandler({
+      idempotency: createMemoryIdempotencyStore(),
+      transfer_started: ({ transfer_start_timestamp }) => {
+        attempts.push(transfer_start_timestamp?.getTime() ?? 0)
+      },
+    })
+    const post = (transferStart: number) =>
+      handle(
+        new Request("http://localhost/", {
+          method: "POST",
+          body: JSON.stringify({
+            ...JSON.parse(callStartedBody),
+            event: "transfer_started",
+            transfer_start_timestamp: transferStart,
+          }),
+        }),
+      )
+    await post(NOW + 1000)
+    await post(NOW + 1000)
+    await post(NOW + 5000)
+    expect(attempts).toEqual([NOW + 1000, NOW + 5000])
+  })
+
+  test("keys expire after the TTL", () => {
+    let time = 0
+    const store = createSqliteIdempotencyStore(new Database(":memory:"), {
+      ttlMs: 1000,
+      now: () => time,
+    })
+    expect(store.claim("k")).toBe(true)
+    time = 500
+    expect(store.claim("k")).toBe(false)
+    time = 1000
+    expect(store.claim("k")).toBe(true)
+  })
+})